@@ -1,11 +1,71 @@
+import { useEffect, useState } from "react";
+import { getSession, logout, onSessionExpired, type Session } from "./api/client";
+import { LanguageSwitcher, useLocale } from "./components/languageSwitcher";
+import { colors } from "./components/theme";
+import { t } from "./lib/i18n";
+import Login from "./pages/login";
 import RoleMatrix from "./pages/roleMatrix";
 
 function App() {
+  const [session, setSession] = useState<Session | null>(getSession);
+  // notice as a message key, so it follows language changes
+  const [notice, setNotice] = useState<"app.sessionExpired" | null>(null);
+  // re-render everything in the new language
+  const locale = useLocale();
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // back to the login when the backend rejects the token or the session runs out
+  useEffect(() => {
+    const expire = () => {
+      logout();
+      setSession(null);
+      setNotice("app.sessionExpired");
+    };
+    onSessionExpired(expire);
+    // setTimeout cannot wait longer than ~24 days
+    const timer = session ? setTimeout(expire, Math.min(new Date(session.expiresAt).getTime() - Date.now(), 2 ** 31 - 1)) : undefined;
+    return () => {
+      onSessionExpired(null);
+      clearTimeout(timer);
+    };
+  }, [session]);
+
   return (
     <div style={{ padding: "30px", fontFamily: "Arial" }}>
-      <h1>Panel de Permisos</h1>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h1>{t("app.title")}</h1>
+        <LanguageSwitcher />
+      </div>
 
-      <RoleMatrix />
+      {session ? (
+        <>
+          <div style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 8 }}>
+            {t("app.signedInAs")} <strong>{session.user.name}</strong>{" "}
+            <button
+              onClick={() => {
+                logout();
+                setSession(null);
+                setNotice(null);
+              }}
+            >
+              {t("app.signOut")}
+            </button>
+          </div>
+          {/* keyed so a different user starts from a fresh panel */}
+          <RoleMatrix key={session.user.id} viewer={session.user} />
+        </>
+      ) : (
+        <Login
+          notice={notice && t(notice)}
+          onLoggedIn={(s) => {
+            setSession(s);
+            setNotice(null);
+          }}
+        />
+      )}
     </div>
   );
 }
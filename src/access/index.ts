@@ -0,0 +1,8 @@
+// Public surface for other front ends: enforce the rules configured in this panel without
+// copying its code. Everything here works on the same model the API serves.
+
+export { api, configure, fetchAccessModel, getSession, login, logout, onAuditFailure, onSessionExpired, type ClientConfig, type Session } from "../api/client";
+export { ACTIONS, type Action, type Module, type Permission, type Role, type UserRole } from "../api/types";
+export { createAccessChecker, type AccessChecker, type FieldAccess, type ModuleRef } from "../lib/accessChecker";
+export type { AuthModel } from "../lib/permissions";
+export { AccessField, Can, PermissionsProvider, useCan, useFieldAccess } from "../components/permissionsProvider";
@@ -1,13 +1,327 @@
-export async function apiGet(path: string) {
-  const urlAPi = 'https://node-dummy-roles-and-permissions.onrender.com';
+import { mergePermission, samePermission, type PendingChange, type PermissionList } from "../lib/draft";
+import { t } from "../lib/i18n";
+import type { AuthModel } from "../lib/permissions";
+import type { AccessReview, AuditEntry, Module, Permission, Role, User, UserRole } from "./types";
 
-  const url = `${urlAPi}${path}`;
+// Base URL comes from Vite env config (VITE_API_URL), falling back to the public demo backend;
+// apps using the access library pick their backend at runtime with configure()
+let apiUrl: string =
+  import.meta.env.VITE_API_URL || 'https://node-dummy-roles-and-permissions.onrender.com';
 
-  const res = await fetch(url);
+export type ClientConfig = { apiUrl?: string };
+
+// Call before the first request (e.g. before fetchAccessModel); unset options keep their value
+export function configure(config: ClientConfig) {
+  if (config.apiUrl) apiUrl = config.apiUrl.replace(/\/+$/, "");
+}
+
+// VITE_USE_MOCK=true routes every request to the in-process mock backend (src/api/mock)
+export const USE_MOCK = import.meta.env.VITE_USE_MOCK === "true";
+
+type Method = "GET" | "POST" | "PUT" | "DELETE";
+
+// ---------- Session ----------
+export type Session = { token: string; expiresAt: string; user: User };
+
+const SESSION_KEY = "auth-session";
+
+const isLive = (s: Session | null) => !!s && new Date(s.expiresAt).getTime() > Date.now();
+
+function readStoredSession(): Session | null {
+  try {
+    const s = JSON.parse(localStorage.getItem(SESSION_KEY) || "null") as Session | null;
+    return isLive(s) ? s : null;
+  } catch {
+    return null;
+  }
+}
+
+let session: Session | null = readStoredSession();
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const getSession = () => (isLive(session) ? session : null);
+
+export function logout() {
+  session = null;
+  localStorage.removeItem(SESSION_KEY);
+}
+
+// Called when the backend rejects the token (expired or revoked); the app shows the login again
+export function onSessionExpired(handler: (() => void) | null) {
+  sessionExpiredHandler = handler;
+}
+
+// Typed error thrown for every failed request (status 0 = network failure)
+export class ApiError extends Error {
+  status: number;
+  method: Method;
+  endpoint: string;
+  serverMessage: string | null;
+
+  constructor(status: number, method: Method, endpoint: string, serverMessage: string | null) {
+    const summary = t("common.apiError", { method, endpoint, status: status || t("common.network") });
+    super(`${summary}${serverMessage ? `: ${serverMessage}` : ""}`);
+    this.name = "ApiError";
+    this.status = status;
+    this.method = method;
+    this.endpoint = endpoint;
+    this.serverMessage = serverMessage;
+  }
+}
+
+// The record was changed (or deleted) by someone else since this edit started, in a way that
+// cannot be merged with it; `current` is the server copy now (null = deleted)
+export class ConflictError extends ApiError {
+  current: Permission | null;
+  // lists both sides changed (empty when the backend refused the write by version)
+  conflicts: PermissionList[];
+
+  constructor(method: Method, endpoint: string, current: Permission | null, conflicts: PermissionList[] = []) {
+    super(409, method, endpoint, t(current ? "sync.changedMessage" : "sync.deletedMessage"));
+    this.name = "ConflictError";
+    this.current = current;
+    this.conflicts = conflicts;
+  }
+}
+
+// Pull a readable message out of an error response (JSON { message | error } or plain text)
+async function readServerMessage(res: Response): Promise<string | null> {
+  const text = await res.text().catch(() => "");
+  if (!text) return null;
+  try {
+    const json = JSON.parse(text);
+    return json.message || json.error || text;
+  } catch {
+    return text;
+  }
+}
+
+async function request<T>(method: Method, path: string, body?: unknown): Promise<T> {
+  const url = `${apiUrl}${path}`;
+
+  // loaded lazily so the mock is split out of the bundle when it is not used
+  const doFetch = USE_MOCK ? (await import("./mock/server")).mockFetch : fetch;
+
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (session) headers.Authorization = `Bearer ${session.token}`;
+
+  let res: Response;
+  try {
+    res = await doFetch(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (e) {
+    throw new ApiError(0, method, path, e instanceof Error ? e.message : null);
+  }
 
   if (!res.ok) {
-    throw new Error("Error en la API");
+    if (res.status === 401 && session) {
+      logout();
+      sessionExpiredHandler?.();
+    }
+    throw new ApiError(res.status, method, path, await readServerMessage(res));
   }
 
-  return res.json();
+  // DELETE endpoints may answer with an empty body
+  const text = await res.text();
+  return (text ? JSON.parse(text) : null) as T;
+}
+
+export const apiGet = <T = unknown>(path: string) => request<T>("GET", path);
+const apiPost = <T = unknown>(path: string, body: unknown) => request<T>("POST", path, body);
+const apiPut = <T = unknown>(path: string, body: unknown) => request<T>("PUT", path, body);
+const apiDelete = <T = unknown>(path: string) => request<T>("DELETE", path);
+
+// Every backend response is wrapped in a { data } envelope
+type Envelope<T> = { data: T };
+
+// CRUD helpers for one REST resource
+function resource<T extends { id?: number }>(path: string) {
+  return {
+    list: async () => (await apiGet<Envelope<T[]>>(`${path}/`)).data,
+    get: async (id: number) => (await apiGet<Envelope<T>>(`${path}/${id}`)).data,
+    create: async (body: Omit<T, "id">) => (await apiPost<Envelope<T>>(path, body))?.data,
+    update: async (id: number, body: T) => (await apiPut<Envelope<T>>(`${path}/${id}`, body))?.data,
+    remove: async (id: number) => {
+      await apiDelete(`${path}/${id}`);
+    },
+  };
+}
+
+// The signed-in user is the actor of audit entries
+const auditActor = () => getSession()?.user.name ?? "anonymous";
+
+const auditLog = resource<AuditEntry>("/api/auditLog");
+
+let auditFailureHandler: ((error: unknown) => void) | null = null;
+
+// Called when a write went through but its audit entry could not be recorded (e.g. no /api/auditLog)
+export function onAuditFailure(handler: ((error: unknown) => void) | null) {
+  auditFailureHandler = handler;
+}
+
+// Same CRUD helpers, but every successful write also records an AuditEntry with the
+// before/after values, so all callers (matrices, bulk jobs, drafts, import, reverts) are covered
+function audited<T extends Permission | UserRole>(entity: AuditEntry["entity"], res: ReturnType<typeof resource<T>>) {
+  const record = async (op: AuditEntry["op"], before: T | null, after: T | null) => {
+    const target = after ?? before;
+    if (!target) return;
+    try {
+      await auditLog.create({
+        at: new Date().toISOString(),
+        actor: auditActor(),
+        entity,
+        op,
+        roleId: target.roleId,
+        moduleId: "moduleId" in target ? target.moduleId : undefined,
+        userId: "userId" in target ? target.userId : undefined,
+        before,
+        after,
+      });
+    } catch (e) {
+      // the change itself went through, so a listener reports the missing entry instead of the UI
+      // rolling the change back; without one the caller gets the error rather than losing it silently
+      if (!auditFailureHandler) throw e;
+      auditFailureHandler(e);
+    }
+  };
+  // current server copy, for the "before" side of updates and deletes
+  const current = (id: number) => res.get(id).catch(() => null);
+
+  return {
+    ...res,
+    create: async (body: Omit<T, "id">) => {
+      const saved = await res.create(body);
+      await record("create", null, saved ?? (body as T));
+      return saved;
+    },
+    update: async (id: number, body: T) => {
+      const before = await current(id);
+      const saved = await res.update(id, body);
+      await record("update", before, saved ?? body);
+      return saved;
+    },
+    remove: async (id: number) => {
+      const before = await current(id);
+      await res.remove(id);
+      await record("delete", before, null);
+    },
+  };
+}
+
+export const api = {
+  users: resource<User>("/api/user"),
+  roles: resource<Role>("/api/role"),
+  modules: resource<Module>("/api/module"),
+  permissions: audited("permission", resource<Permission>("/api/permissions")),
+  userRoles: audited("userRole", resource<UserRole>("/api/userRole")),
+  auditLog: { list: auditLog.list },
+  accessReviews: resource<AccessReview>("/api/accessReview"),
+};
+
+// Exchange credentials for a token; later requests send it as a Bearer token
+export async function login(username: string, password: string): Promise<Session> {
+  const s = (await apiPost<Envelope<Session>>("/api/auth/login", { username, password })).data;
+  session = s;
+  localStorage.setItem(SESSION_KEY, JSON.stringify(s));
+  return s;
+}
+
+// Everything a PermissionsProvider needs, loaded with the current session's token
+export async function fetchAccessModel(): Promise<{ model: AuthModel; modules: Module[] }> {
+  const [roles, permissions, userRoles, modules] = await Promise.all([api.roles.list(), api.permissions.list(), api.userRoles.list(), api.modules.list()]);
+  return { model: { roles, permissions, userRoles }, modules };
+}
+
+// How often the real backend is polled for other admins' changes, in seconds (0 = never);
+// anything that is not a number >= 0 falls back to 15 rather than polling in a tight loop
+const syncSetting = Number(import.meta.env.VITE_SYNC_SECONDS || 15);
+const SYNC_SECONDS = Number.isFinite(syncSetting) && syncSetting >= 0 ? syncSetting : 15;
+
+// Calls onChange whenever someone else may have changed the data: pushed by the mock backend
+// (other tabs), polled for the real API, which has no change feed. Returns the unsubscribe function.
+export function watchRemoteChanges(onChange: () => void) {
+  let stopped = false;
+  let unsubscribe = () => {};
+  if (USE_MOCK) {
+    import("./mock/server").then((mock) => {
+      if (!stopped) unsubscribe = mock.onMockDbChange(onChange);
+    });
+  }
+  // hidden tabs skip the rounds and catch up once they are shown again
+  const timer = !USE_MOCK && SYNC_SECONDS > 0 ? setInterval(() => !document.hidden && onChange(), SYNC_SECONDS * 1000) : undefined;
+  const onVisible = () => !document.hidden && onChange();
+  if (timer) document.addEventListener("visibilitychange", onVisible);
+  return () => {
+    stopped = true;
+    unsubscribe();
+    clearInterval(timer);
+    document.removeEventListener("visibilitychange", onVisible);
+  };
+}
+
+// Human readable message for UI feedback
+export function describeError(e: unknown): string {
+  if (e instanceof ApiError) return e.message;
+  if (e instanceof Error) return e.message;
+  return String(e);
+}
+
+const isStatus = (e: unknown, status: number) => e instanceof ApiError && e.status === status;
+
+// server copy of a permission, null once it is deleted
+const currentPermission = (id: number) => api.permissions.get(id).catch((e) => (isStatus(e, 404) ? null : Promise.reject(e)));
+
+// Create or update the Permission record of a role/module pair. `existing` is the copy the edit was
+// made on: changes someone else saved since then are merged in (see mergePermission), and edits
+// that cannot be merged are refused with a ConflictError instead of overwriting them
+export async function upsertPermission(existing: Permission | undefined, roleId: number, moduleId: number, patch: Partial<Permission>) {
+  if (existing?.id) {
+    const endpoint = `/api/permissions/${existing.id}`;
+    const current = await currentPermission(existing.id);
+    if (!current) throw new ConflictError("PUT", endpoint, null);
+    const merged = mergePermission(existing, current, patch);
+    if (!merged.ok) throw new ConflictError("PUT", endpoint, current, merged.conflicts);
+    // someone else already made the same change
+    if (samePermission(merged.record, current)) return current;
+    try {
+      // carries current.version, so the backend refuses it if the record changes in between
+      return await api.permissions.update(existing.id, merged.record);
+    } catch (e) {
+      if (isStatus(e, 409)) throw new ConflictError("PUT", endpoint, await currentPermission(existing.id));
+      throw e;
+    }
+  }
+  const { id: _id, version: _version, updatedAt: _updatedAt, ...fields } = patch;
+  try {
+    return await api.permissions.create({ roleId, moduleId, actions: [], visibleFields: [], editableFields: [], ...fields });
+  } catch (e) {
+    // someone else created the role/module pair's record meanwhile
+    if (!isStatus(e, 409)) throw e;
+    const current = (await api.permissions.list()).find((p) => p.roleId === roleId && p.moduleId === moduleId) ?? null;
+    throw new ConflictError("POST", "/api/permissions", current);
+  }
+}
+
+// Send one pending draft change to the backend
+export async function applyPendingChange(change: PendingChange) {
+  if (change.kind === "userRole") {
+    if (change.op === "create" && change.after) await api.userRoles.create({ userId: change.after.userId, roleId: change.after.roleId });
+    if (change.op === "delete" && change.before?.id) await api.userRoles.remove(change.before.id);
+    return;
+  }
+  if (change.op === "delete") {
+    if (!change.before?.id) return;
+    const current = await currentPermission(change.before.id);
+    // already gone; or changed since the delete was planned, which would drop someone else's edit
+    if (!current) return;
+    if (!samePermission(current, change.before)) throw new ConflictError("DELETE", `/api/permissions/${change.before.id}`, current);
+    await api.permissions.remove(change.before.id);
+    return;
+  }
+  const { id: _id, ...fields } = change.after!;
+  await upsertPermission(change.before ?? undefined, fields.roleId, fields.moduleId, fields);
 }
@@ -0,0 +1,59 @@
+import type { AccessReview, AuditEntry, Module, Permission, Role, User, UserRole } from "../types";
+
+export type MockDb = {
+  user: User[];
+  role: Role[];
+  module: Module[];
+  permissions: Permission[];
+  userRole: UserRole[];
+  auditLog: AuditEntry[];
+  accessReview: AccessReview[];
+};
+
+// Default seed for the mock backend. Sales keeps its fields as a JSON string on purpose,
+// like the real backend does for some modules. Manager inherits from Employee.
+// Sign in as Alice (Admin) to edit; Bob (Manager) and Dave (Auditor) get a read-only panel, Carol none.
+export const defaultFixtures: MockDb = {
+  user: [
+    { id: 1, name: "Alice" },
+    { id: 2, name: "Bob" },
+    { id: 3, name: "Carol" },
+    { id: 4, name: "Dave" },
+  ],
+  role: [
+    { id: 1, name: "Admin" },
+    { id: 2, name: "Manager", parentIds: [3] },
+    { id: 3, name: "Employee" },
+    { id: 4, name: "Auditor" },
+  ],
+  module: [
+    { id: 1, name: "Sales", fields: JSON.stringify(["customer", "amount", "discount", "notes"]) },
+    { id: 2, name: "Billing", fields: ["invoice", "amount", "taxId", "dueDate"] },
+    { id: 3, name: "HR", fields: ["name", "salary", "address"] },
+    { id: 4, name: "Inventory", fields: ["sku", "stock", "location"] },
+    // govern this admin panel itself (see lib/panelAccess)
+    { id: 5, name: "Permissions", fields: [] },
+    { id: 6, name: "Roles", fields: [] },
+  ],
+  permissions: [
+    { id: 1, roleId: 1, moduleId: 1, actions: ["read", "create", "update", "delete"], visibleFields: ["customer", "amount", "discount", "notes"], editableFields: ["customer", "amount", "discount", "notes"] },
+    { id: 2, roleId: 1, moduleId: 2, actions: ["read", "create", "update", "delete"], visibleFields: ["invoice", "amount", "taxId", "dueDate"], editableFields: ["invoice", "amount", "taxId", "dueDate"] },
+    { id: 3, roleId: 2, moduleId: 1, actions: ["read", "update"], visibleFields: ["customer", "amount", "discount"], editableFields: ["discount"] },
+    { id: 4, roleId: 3, moduleId: 1, actions: ["read"], visibleFields: ["customer", "amount"], editableFields: [] },
+    { id: 5, roleId: 3, moduleId: 4, actions: ["read", "update"], visibleFields: ["sku", "stock"], editableFields: ["stock"] },
+    { id: 6, roleId: 4, moduleId: 2, actions: ["read"], visibleFields: ["invoice", "amount", "dueDate"], editableFields: [], deniedActions: ["create", "update", "delete"] },
+    { id: 7, roleId: 1, moduleId: 5, actions: ["read", "create", "update", "delete"], visibleFields: [], editableFields: [] },
+    { id: 8, roleId: 1, moduleId: 6, actions: ["read", "create", "update", "delete"], visibleFields: [], editableFields: [] },
+    { id: 9, roleId: 2, moduleId: 5, actions: ["read"], visibleFields: [], editableFields: [] },
+    { id: 10, roleId: 4, moduleId: 5, actions: ["read"], visibleFields: [], editableFields: [] },
+  ],
+  userRole: [
+    { id: 1, userId: 1, roleId: 1 },
+    { id: 2, userId: 2, roleId: 2 },
+    { id: 3, userId: 2, roleId: 3 },
+    { id: 4, userId: 3, roleId: 3 },
+    { id: 5, userId: 4, roleId: 4 },
+  ],
+  auditLog: [],
+  accessReview: [],
+};
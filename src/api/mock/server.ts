@@ -0,0 +1,158 @@
+import { defaultFixtures, type MockDb } from "./fixtures";
+
+// In-process stand-in for the REST backend. It answers the same routes with the same
+// { data } envelope and keeps its state in localStorage so edits survive a reload.
+// Tabs share that storage, so two tabs behave like two admins on one server: every write is
+// announced to the other tabs, which reload the data and notify onMockDbChange listeners.
+
+// bumped when the fixtures change in a way old stored data would break (v2: panel modules)
+const STORAGE_KEY = "mock-db-v2";
+
+// version / updatedAt are stamped on every write (optimistic locking, see PUT)
+type Row = { id?: number; version?: number; updatedAt?: string };
+
+const clone = <T,>(v: T): T => JSON.parse(JSON.stringify(v));
+
+function loadDb(): MockDb {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // tables added after the data was stored start from their fixtures
+    if (raw) return { ...clone(defaultFixtures), ...JSON.parse(raw) };
+  } catch {
+    // corrupted or unavailable storage -> fall back to fixtures
+  }
+  return clone(defaultFixtures);
+}
+
+let db: MockDb = loadDb();
+
+const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(STORAGE_KEY);
+const changeListeners = new Set<() => void>();
+
+// another tab wrote: pick up its data and tell the app (the stand-in for a server push)
+if (channel) {
+  channel.onmessage = () => {
+    db = loadDb();
+    changeListeners.forEach((l) => l());
+  };
+}
+
+export function onMockDbChange(listener: () => void) {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function saveDb() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch {
+    // storage full or disabled: keep working in memory
+  }
+  channel?.postMessage("changed");
+}
+
+// Replace the whole mock database (defaults to the bundled fixtures)
+export function seedMockDb(seed: MockDb = defaultFixtures) {
+  db = clone(seed);
+  saveDb();
+}
+
+export function getMockDb(): MockDb {
+  return clone(db);
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const delay = Number(import.meta.env.VITE_MOCK_DELAY || 0);
+
+// Every fixture user signs in with this password; tokens expire after VITE_MOCK_SESSION_MINUTES
+export const MOCK_PASSWORD = "demo";
+const sessionMinutes = Number(import.meta.env.VITE_MOCK_SESSION_MINUTES || 60);
+
+type MockToken = { userId: number; expiresAt: string };
+
+function login(body: { username?: string; password?: string }) {
+  const user = db.user.find((u) => u.name.toLowerCase() === String(body.username ?? "").trim().toLowerCase());
+  if (!user || body.password !== MOCK_PASSWORD) return json(401, { message: "Invalid user name or password" });
+  const expiresAt = new Date(Date.now() + sessionMinutes * 60_000).toISOString();
+  const token = btoa(JSON.stringify({ userId: user.id, expiresAt } satisfies MockToken));
+  return json(200, { data: { token, expiresAt, user } });
+}
+
+// Bearer token of a known user that has not expired yet
+function isAuthorized(init: RequestInit) {
+  const header = new Headers(init.headers).get("Authorization") ?? "";
+  try {
+    const token = JSON.parse(atob(header.replace(/^Bearer /, ""))) as MockToken;
+    return new Date(token.expiresAt).getTime() > Date.now() && db.user.some((u) => u.id === token.userId);
+  } catch {
+    return false;
+  }
+}
+
+// fetch-compatible handler: mockFetch(url, init) -> Response
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  if (delay) await new Promise((r) => setTimeout(r, delay));
+
+  const method = (init.method || "GET").toUpperCase();
+  const { pathname } = new URL(input, "http://mock.local");
+  const body = init.body ? JSON.parse(String(init.body)) : {};
+
+  if (pathname === "/api/auth/login" && method === "POST") return login(body);
+  if (!isAuthorized(init)) return json(401, { message: "Session expired or invalid, sign in again" });
+
+  const match = pathname.match(/^\/api\/(\w+)\/?(\d+)?\/?$/);
+  if (!match || !(match[1] in db)) return json(404, { message: `Unknown route ${pathname}` });
+
+  const table = db[match[1] as keyof MockDb] as Row[];
+  const id = match[2] ? Number(match[2]) : null;
+  const index = id === null ? -1 : table.findIndex((r) => r.id === id);
+
+  if (id !== null && index === -1) return json(404, { message: `${match[1]} ${id} not found` });
+
+  switch (method) {
+    case "GET":
+      return json(200, { data: id === null ? table : table[index] });
+
+    case "POST": {
+      if (id !== null) break;
+      // one permission per role/module pair
+      if (match[1] === "permissions") {
+        const existing = db.permissions.find((p) => p.roleId === body.roleId && p.moduleId === body.moduleId);
+        if (existing) return json(409, { message: `permissions ${existing.id} already exists for this role and module`, data: existing });
+      }
+      const nextId = table.reduce((max, r) => Math.max(max, r.id ?? 0), 0) + 1;
+      const row = { ...body, id: nextId, version: 1, updatedAt: new Date().toISOString() };
+      table.push(row);
+      saveDb();
+      return json(201, { data: row });
+    }
+
+    case "PUT": {
+      if (id === null) break;
+      const stored = table[index];
+      // a write based on an older version would silently undo someone else's change
+      if (body.version !== undefined && stored.version !== undefined && body.version !== stored.version) {
+        return json(409, { message: `${match[1]} ${id} was changed by someone else`, data: stored });
+      }
+      table[index] = { ...stored, ...body, id, version: (stored.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+      saveDb();
+      return json(200, { data: table[index] });
+    }
+
+    case "DELETE": {
+      if (id === null) break;
+      const [removed] = table.splice(index, 1);
+      saveDb();
+      return json(200, { data: removed });
+    }
+  }
+
+  return json(405, { message: `${method} not allowed on ${pathname}` });
+}
@@ -0,0 +1,69 @@
+export const ACTIONS = ["read", "create", "update", "delete"] as const;
+export type Action = (typeof ACTIONS)[number];
+
+export type User = { id: number; name: string };
+// fields can arrive either as a JSON string or as an array
+export type Module = { id: number; name: string; fields?: string[] | string };
+export type Permission = {
+  id?: number;
+  roleId: number;
+  moduleId: number;
+  actions: string[];
+  visibleFields?: string[];
+  editableFields?: string[];
+  // explicit denies; they override grants from any other role the user holds
+  deniedActions?: string[];
+  deniedVisibleFields?: string[];
+  deniedEditableFields?: string[];
+  // set by the backend on every write; updates send the version back so a stale write is refused
+  version?: number;
+  updatedAt?: string;
+};
+export type UserRole = { id?: number; userId: number; roleId: number };
+// parentIds: roles this role inherits actions and fields from (e.g. Manager extends Employee)
+export type Role = { id: number; name: string; parentIds?: number[] };
+// One recorded change to a permission or a role assignment. roleId / moduleId / userId are
+// copied from the record so entries stay filterable after the record itself is deleted.
+export type AuditEntry = {
+  id?: number;
+  at: string; // ISO timestamp
+  actor: string;
+  entity: "permission" | "userRole";
+  op: "create" | "update" | "delete";
+  roleId: number;
+  moduleId?: number;
+  userId?: number;
+  before: Permission | UserRole | null;
+  after: Permission | UserRole | null;
+};
+
+export type ReviewDecision = "approved" | "flagged";
+// One right a user held when an access review started, and what the reviewer decided about it.
+// Names are copied in so the report still reads right after users, roles or modules change.
+export type ReviewItem = {
+  key: string;
+  userId: number;
+  user: string;
+  moduleId: number;
+  module: string;
+  // an action, or a field the user may query / update
+  right: "action" | "query" | "update";
+  name: string;
+  // granting roles; via = the held role an inherited grant comes through
+  roles: { role: string; via?: string }[];
+  decision?: ReviewDecision;
+  comment?: string;
+  reviewer?: string;
+  decidedAt?: string;
+};
+// An access recertification campaign; signed off once every item is decided, read-only after that
+export type AccessReview = {
+  id?: number;
+  name: string;
+  createdAt: string;
+  createdBy: string;
+  items: ReviewItem[];
+  signedOffAt?: string;
+  signedOffBy?: string;
+  version?: number;
+};
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { describeError } from "../api/client";
+import { t } from "../lib/i18n";
+import { colors } from "./theme";
+
+export type BulkItem = { label: string; run: () => Promise<void> };
+
+export type BulkJob = {
+  title: string;
+  total: number;
+  done: number;
+  running: boolean;
+  failures: { label: string; error: string }[];
+};
+
+// Runs bulk items one after another, tracking progress and per-item failures
+export function useBulkJob() {
+  const [job, setJob] = useState<BulkJob | null>(null);
+
+  const run = async (title: string, items: BulkItem[]) => {
+    setJob({ title, total: items.length, done: 0, running: true, failures: [] });
+    for (const item of items) {
+      try {
+        await item.run();
+      } catch (e) {
+        const failure = { label: item.label, error: describeError(e) };
+        setJob((j) => j && { ...j, failures: [...j.failures, failure] });
+      }
+      setJob((j) => j && { ...j, done: j.done + 1 });
+    }
+    setJob((j) => j && { ...j, running: false });
+  };
+
+  return { job, run, clear: () => setJob(null) };
+}
+
+export function BulkJobPanel({ job, onClose }: { job: BulkJob; onClose: () => void }) {
+  const pct = job.total ? Math.round((job.done / job.total) * 100) : 100;
+  return (
+    <div style={{ background: colors.surface, border: `1px solid ${colors.divider}`, padding: 12, borderRadius: 10, marginBottom: 16 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <strong>
+          {t("bulk.progress", { title: job.title, done: job.done, total: job.total })}
+          {!job.running && t("bulk.finished", { failed: job.failures.length })}
+        </strong>
+        {!job.running && <button onClick={onClose}>{t("common.close")}</button>}
+      </div>
+      <div style={{ height: 8, background: colors.divider, borderRadius: 4, marginTop: 8, overflow: "hidden" }}>
+        <div style={{ width: `${pct}%`, height: "100%", background: job.failures.length ? colors.caution : colors.success }} />
+      </div>
+      {job.failures.length > 0 && (
+        <ul style={{ margin: "8px 0 0", paddingLeft: 20, fontSize: 12, color: colors.danger }}>
+          {job.failures.map((f, i) => <li key={i}>{f.label}: {f.error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { t } from "../lib/i18n";
+import { colors } from "./theme";
+
+// Small per-cell indicator for optimistic writes
+export default function CellStatusBadge({ status }: { status?: "pending" | "error" }) {
+  if (!status) return null;
+  return (
+    <div style={{ fontSize: 11, textAlign: "center", marginBottom: 6, color: status === "pending" ? colors.textMuted : colors.danger }}>
+      {status === "pending" ? t("cell.saving") : t("cell.saveFailed")}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import type { Module, User } from "../api/types";
+import { t } from "../lib/i18n";
+import { locksOutPanel, PANEL_MODULES } from "../lib/panelAccess";
+import type { AuthModel } from "../lib/permissions";
+
+// Ask before a change that would leave nobody able to run the panel (see lib/panelAccess); true = go ahead
+export function confirmPanelAccess(before: AuthModel, after: AuthModel, modules: Module[], users: User[]) {
+  return !locksOutPanel(before, after, modules, users) || confirm(t("matrix.confirmLockout", { permissions: PANEL_MODULES.permissions, roles: PANEL_MODULES.roles }));
+}
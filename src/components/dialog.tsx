@@ -0,0 +1,81 @@
+import type React from "react";
+import { useEffect, useId, useRef } from "react";
+import { colors } from "./theme";
+
+type Props = {
+  title: React.ReactNode;
+  // Escape, a click on the backdrop and the caller's Cancel button all end up here
+  onClose: () => void;
+  children: React.ReactNode;
+  // buttons, right-aligned under the content
+  footer?: React.ReactNode;
+  width?: number;
+  minWidth?: number;
+};
+
+export const dialogButton: React.CSSProperties = {
+  marginLeft: 8,
+  padding: "8px 12px",
+  borderRadius: 6,
+  border: `1px solid ${colors.controlBorder}`,
+  background: colors.surface,
+  color: colors.text,
+};
+export const dialogPrimaryButton: React.CSSProperties = { ...dialogButton, background: colors.primary, color: colors.onDark, border: `1px solid ${colors.primary}` };
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Modal dialog: labelled by its title, keeps Tab inside, closes on Escape and gives focus back
+// to whatever had it before (e.g. the matrix cell that opened it)
+export default function Dialog({ title, onClose, children, footer, width, minWidth }: Props) {
+  const titleId = useId();
+  const panel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    const first = panel.current?.querySelector<HTMLElement>(FOCUSABLE);
+    (first ?? panel.current)?.focus();
+    return () => opener?.focus();
+  }, []);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== "Tab" || !panel.current) return;
+    const items = Array.from(panel.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (!items.length) return;
+    const first = items[0];
+    const last = items[items.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div
+      style={{ position: "fixed", inset: 0, background: colors.overlay, display: "flex", alignItems: "center", justifyContent: "center", zIndex: 3000 }}
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        ref={panel}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        onKeyDown={onKeyDown}
+        style={{ background: colors.surface, color: colors.text, padding: 22, borderRadius: 10, width, minWidth, maxWidth: "90vw", maxHeight: "90vh", overflow: "auto" }}
+      >
+        <h3 id={titleId} style={{ marginTop: 0 }}>{title}</h3>
+        {children}
+        {footer && <div style={{ textAlign: "right", marginTop: 14 }}>{footer}</div>}
+      </div>
+    </div>
+  );
+}
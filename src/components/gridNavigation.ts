@@ -0,0 +1,54 @@
+import type React from "react";
+import { useState } from "react";
+import { focusRing } from "./theme";
+
+type Cell = { row: number; col: number };
+
+const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max - 1));
+
+// Roving tabindex over a rows x cols grid of controls: Tab enters the grid on one cell,
+// the arrow keys / Home / End (Ctrl+Home / Ctrl+End for the corners) move between cells.
+// Spread gridProps on the table and cellProps(row, col) on each control.
+export function useGridNavigation(rows: number, cols: number) {
+  const [active, setActive] = useState<Cell>({ row: 0, col: 0 });
+  const [focused, setFocused] = useState(false);
+  // the rows / columns may have shrunk (filters, paging) since the cell was last visited
+  const current = { row: clamp(active.row, rows), col: clamp(active.col, cols) };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.dataset.row === undefined || target.dataset.col === undefined) return;
+    const row = Number(target.dataset.row);
+    const col = Number(target.dataset.col);
+    const next: Record<string, Cell> = {
+      ArrowUp: { row: row - 1, col },
+      ArrowDown: { row: row + 1, col },
+      ArrowLeft: { row, col: col - 1 },
+      ArrowRight: { row, col: col + 1 },
+      Home: e.ctrlKey ? { row: 0, col: 0 } : { row, col: 0 },
+      End: e.ctrlKey ? { row: rows - 1, col: cols - 1 } : { row, col: cols - 1 },
+    };
+    const to = next[e.key];
+    if (!to) return;
+    e.preventDefault();
+    const cell = { row: clamp(to.row, rows), col: clamp(to.col, cols) };
+    e.currentTarget.querySelector<HTMLElement>(`[data-row="${cell.row}"][data-col="${cell.col}"]`)?.focus();
+  };
+
+  const cellProps = (row: number, col: number) => {
+    const isActive = row === current.row && col === current.col;
+    return {
+      "data-row": row,
+      "data-col": col,
+      tabIndex: isActive ? 0 : -1,
+      onFocus: () => {
+        setActive({ row, col });
+        setFocused(true);
+      },
+      onBlur: () => setFocused(false),
+      style: isActive && focused ? { outline: focusRing, outlineOffset: 2 } : undefined,
+    };
+  };
+
+  return { gridProps: { role: "grid", onKeyDown }, cellProps };
+}
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from "react";
+import { getLocale, LOCALES, setLocale, subscribeLocale, t, type Locale } from "../lib/i18n";
+
+// Current UI language; the component re-renders (with its subtree) when it changes
+export function useLocale() {
+  return useSyncExternalStore(subscribeLocale, getLocale);
+}
+
+export function LanguageSwitcher() {
+  const locale = useLocale();
+  return (
+    <label style={{ fontSize: 13 }}>
+      {t("common.language")}{" "}
+      <select value={locale} onChange={(e) => setLocale(e.target.value as Locale)}>
+        {Object.entries(LOCALES).map(([code, name]) => (
+          <option key={code} value={code} lang={code}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
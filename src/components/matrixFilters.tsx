@@ -0,0 +1,56 @@
+import type React from "react";
+import { ACTIONS, type Action, type Module, type Role } from "../api/types";
+import { actionLabel, t } from "../lib/i18n";
+import type { MatrixFilters } from "../lib/matrixFilters";
+import { colors } from "./theme";
+
+type Props = {
+  filters: MatrixFilters;
+  roles: Role[];
+  modules: Module[];
+  // the Assign Roles tab has no module / action columns to filter
+  showModuleAndAction?: boolean;
+  onChange: (filters: MatrixFilters) => void;
+};
+
+const selectStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: `1px solid ${colors.controlBorder}` };
+
+// Search + filter bar shared by the matrices; any change goes back to the first page
+export default function MatrixFilterBar({ filters, roles, modules, showModuleAndAction = true, onChange }: Props) {
+  const set = (patch: Partial<MatrixFilters>) => onChange({ ...filters, ...patch, page: 0 });
+
+  return (
+    <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", marginBottom: 12 }}>
+      <input
+        type="search"
+        placeholder={t("filters.searchUser")}
+        value={filters.search}
+        onChange={(e) => set({ search: e.target.value })}
+        style={{ ...selectStyle, minWidth: 200 }}
+      />
+
+      <select style={selectStyle} value={filters.roleId ?? ""} onChange={(e) => set({ roleId: e.target.value ? Number(e.target.value) : null })}>
+        <option value="">{t("common.allRoles")}</option>
+        {roles.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+      </select>
+
+      {showModuleAndAction && (
+        <>
+          <select style={selectStyle} value={filters.moduleId ?? ""} onChange={(e) => set({ moduleId: e.target.value ? Number(e.target.value) : null })}>
+            <option value="">{t("common.allModules")}</option>
+            {modules.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+
+          <select style={selectStyle} value={filters.action ?? ""} onChange={(e) => set({ action: (e.target.value || null) as Action | null })}>
+            <option value="">{t("filters.allActions")}</option>
+            {ACTIONS.map((a) => <option key={a} value={a}>{t("filters.can", { action: actionLabel(a) })}</option>)}
+          </select>
+        </>
+      )}
+
+      {(filters.search || filters.roleId !== null || filters.moduleId !== null || filters.action !== null) && (
+        <button onClick={() => onChange({ ...filters, search: "", roleId: null, moduleId: null, action: null, page: 0 })}>{t("common.clearFilters")}</button>
+      )}
+    </div>
+  );
+}
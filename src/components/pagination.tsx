@@ -0,0 +1,29 @@
+import { t } from "../lib/i18n";
+
+const PAGE_SIZES = [25, 50, 100, 250];
+
+type Props = {
+  total: number;
+  page: number;
+  pageSize: number;
+  onChange: (page: number, pageSize: number) => void;
+};
+
+// Prev / next pager with a page size selector (page is 0-based)
+export default function Pagination({ total, page, pageSize, onChange }: Props) {
+  const pages = Math.max(1, Math.ceil(total / pageSize));
+  const from = total === 0 ? 0 : page * pageSize + 1;
+  const to = Math.min(total, (page + 1) * pageSize);
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", justifyContent: "flex-end", gap: 8, marginTop: 10, fontSize: 13 }}>
+      <span>{t("pagination.range", { from, to, total })}</span>
+      <button onClick={() => onChange(page - 1, pageSize)} disabled={page === 0}>{t("pagination.prev")}</button>
+      <span>{t("pagination.page", { page: page + 1, pages })}</span>
+      <button onClick={() => onChange(page + 1, pageSize)} disabled={page + 1 >= pages}>{t("pagination.next")}</button>
+      <select value={pageSize} onChange={(e) => onChange(0, Number(e.target.value))}>
+        {PAGE_SIZES.map((s) => <option key={s} value={s}>{t("pagination.perPage", { size: s })}</option>)}
+      </select>
+    </div>
+  );
+}
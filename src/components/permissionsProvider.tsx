@@ -0,0 +1,59 @@
+import React, { createContext, useContext, useMemo } from "react";
+import type { Action, Module } from "../api/types";
+import { createAccessChecker, type AccessChecker, type FieldAccess, type ModuleRef } from "../lib/accessChecker";
+import type { AuthModel } from "../lib/permissions";
+
+const PermissionsContext = createContext<AccessChecker | null>(null);
+
+type ProviderProps = {
+  // the authorization model as served by the API (see fetchAccessModel)
+  model: AuthModel;
+  modules: Module[];
+  // the signed-in user; null = nobody, everything is denied
+  userId: number | null;
+  children: React.ReactNode;
+};
+
+// Makes the user's effective rights available to useCan / useFieldAccess / <Can> / <AccessField>
+export function PermissionsProvider({ model, modules, userId, children }: ProviderProps) {
+  const checker = useMemo(() => createAccessChecker(model, modules, userId), [model, modules, userId]);
+  return <PermissionsContext.Provider value={checker}>{children}</PermissionsContext.Provider>;
+}
+
+function useChecker(hook: string) {
+  const checker = useContext(PermissionsContext);
+  if (!checker) throw new Error(`${hook} must be used inside a <PermissionsProvider>`);
+  return checker;
+}
+
+// useCan("Billing", "delete")
+export function useCan(module: ModuleRef, action: Action): boolean {
+  return useChecker("useCan").can(module, action);
+}
+
+// Fields the user may see / edit on a module
+export function useFieldAccess(module: ModuleRef): FieldAccess {
+  const checker = useChecker("useFieldAccess");
+  return useMemo(() => checker.fields(module), [checker, module]);
+}
+
+// Renders children only when the user may perform the action
+export function Can({ module, action, fallback = null, children }: { module: ModuleRef; action: Action; fallback?: React.ReactNode; children: React.ReactNode }) {
+  return <>{useCan(module, action) ? children : fallback}</>;
+}
+
+type AccessFieldProps = {
+  module: ModuleRef;
+  field: string;
+  // an input element (gets disabled when not editable) or a render function
+  children: React.ReactElement<{ disabled?: boolean }> | ((access: { editable: boolean }) => React.ReactNode);
+};
+
+// Form helper: hides a field the user may not see and disables one they may not edit
+export function AccessField({ module, field, children }: AccessFieldProps) {
+  const access = useFieldAccess(module);
+  if (!access.canView(field)) return null;
+  const editable = access.canEdit(field);
+  if (typeof children === "function") return <>{children({ editable })}</>;
+  return editable ? children : React.cloneElement(children, { disabled: true });
+}
@@ -0,0 +1,35 @@
+import type React from "react";
+import { useEffect, useState } from "react";
+import { formatRoute, parseRoute, type Route } from "../lib/route";
+
+// Current hash route; follows browser back / forward
+export function useRoute() {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const onChange = () => setRoute(parseRoute(window.location.hash));
+    // typed / clicked hashes fire hashchange, back / forward over pushState entries fire popstate
+    window.addEventListener("hashchange", onChange);
+    window.addEventListener("popstate", onChange);
+    return () => {
+      window.removeEventListener("hashchange", onChange);
+      window.removeEventListener("popstate", onChange);
+    };
+  }, []);
+
+  // replace: update the URL without a new history entry (e.g. while typing a search)
+  const navigate = (next: Route, { replace = false } = {}) => {
+    const hash = formatRoute(next);
+    if (hash === window.location.hash) return;
+    if (replace) history.replaceState(null, "", hash);
+    else history.pushState(null, "", hash);
+    // neither call fires hashchange
+    setRoute(parseRoute(hash));
+  };
+
+  return [route, navigate] as const;
+}
+
+export function Link({ to, children, style }: { to: Route; children: React.ReactNode; style?: React.CSSProperties }) {
+  return <a href={formatRoute(to)} style={{ color: "inherit", ...style }}>{children}</a>;
+}
@@ -0,0 +1,36 @@
+// Shared UI colors. Text colors keep at least 4.5:1 contrast on every background below and
+// control borders / indicators at least 3:1 (WCAG 2.1 AA), so pick from here instead of inline hex values.
+export const colors = {
+  text: "#111827",
+  textSecondary: "#374151",
+  textMuted: "#4b5563",
+  danger: "#b91c1c",
+  warning: "#92400e",
+  success: "#15803d",
+  accent: "#1d4ed8",
+  // text on primary / accent / danger backgrounds
+  onDark: "#fff",
+  primary: "#111827",
+
+  pageBg: "#f6f8fb",
+  surface: "#fff",
+  headerBg: "#f3f4f6",
+  rowHeaderBg: "#fafafa",
+  selectedBg: "#eff6ff",
+  changedBg: "#fef3c7",
+  errorBg: "#fef2f2",
+  successBg: "#f0fdf4",
+  noticeBg: "#fffbeb",
+
+  // inputs, buttons and progress fills (non-text, 3:1)
+  controlBorder: "#6b7280",
+  caution: "#b45309",
+  // decorative only
+  divider: "#e5e7eb",
+  errorBorder: "#fca5a5",
+  successBorder: "#86efac",
+  noticeBorder: "#fcd34d",
+  overlay: "rgba(0,0,0,0.45)",
+};
+
+export const focusRing = `2px solid ${colors.accent}`;
@@ -0,0 +1,71 @@
+import { useCallback, useState } from "react";
+import { t } from "../lib/i18n";
+import { colors } from "./theme";
+
+export type Toast = {
+  id: number;
+  kind: "error" | "info";
+  message: string;
+  // when set, the toast offers a Retry button
+  retry?: () => void;
+  // a new toast replaces an open one with the same key, so repeated failures show once
+  key?: string;
+};
+
+let nextToastId = 1;
+
+// Small toast queue: info toasts go away by themselves, errors stay until dismissed or retried
+export function useToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = useCallback((id: number) => setToasts((t) => t.filter((x) => x.id !== id)), []);
+
+  const push = useCallback(
+    (toast: Omit<Toast, "id">) => {
+      const id = nextToastId++;
+      setToasts((t) => [...t.filter((x) => !toast.key || x.key !== toast.key), { ...toast, id }]);
+      if (toast.kind === "info") setTimeout(() => dismiss(id), 4000);
+    },
+    [dismiss]
+  );
+
+  return { toasts, push, dismiss };
+}
+
+export function ToastList({ toasts, dismiss }: { toasts: Toast[]; dismiss: (id: number) => void }) {
+  return (
+    <div style={{ position: "fixed", right: 16, bottom: 16, display: "flex", flexDirection: "column", gap: 8, zIndex: 4000, maxWidth: 380 }}>
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role={toast.kind === "error" ? "alert" : "status"}
+          style={{
+            background: toast.kind === "error" ? colors.errorBg : colors.successBg,
+            border: `1px solid ${toast.kind === "error" ? colors.errorBorder : colors.successBorder}`,
+            color: colors.text,
+            padding: "10px 12px",
+            borderRadius: 8,
+            boxShadow: "0 6px 18px rgba(0,0,0,0.12)",
+            fontSize: 13,
+          }}
+        >
+          <div>{toast.message}</div>
+          <div style={{ textAlign: "right", marginTop: 6 }}>
+            {toast.retry && (
+              <button
+                onClick={() => {
+                  dismiss(toast.id);
+                  toast.retry!();
+                }}
+                style={{ marginRight: 6, padding: "4px 8px", borderRadius: 6 }}
+              >
+                {t("common.retry")}
+              </button>
+            )}
+            <button onClick={() => dismiss(toast.id)} style={{ padding: "4px 8px", borderRadius: 6 }}>{t("common.dismiss")}</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { Action, Module } from "../api/types";
+import { allowedFields, buildAccessIndex, effectiveAccess, isAllowed, type AuthModel, type ModuleAccess } from "./permissions";
+
+// "May this user ...?" answered with the same rules the panel configures (role inheritance,
+// deny overrides allow). Used by the panel itself and by the PermissionsProvider for other apps.
+
+// a module by name (as configured in the catalog) or id
+export type ModuleRef = string | number;
+
+export type FieldAccess = {
+  visible: string[];
+  editable: string[];
+  canView: (field: string) => boolean;
+  canEdit: (field: string) => boolean;
+};
+
+export type AccessChecker = {
+  can: (module: ModuleRef, action: Action) => boolean;
+  fields: (module: ModuleRef) => FieldAccess;
+};
+
+const noFields: FieldAccess = { visible: [], editable: [], canView: () => false, canEdit: () => false };
+
+// Unknown modules and a missing user (not signed in) grant nothing
+export function createAccessChecker(model: AuthModel, modules: Module[], userId: number | null): AccessChecker {
+  const index = buildAccessIndex(model);
+  const cache = new Map<number, ModuleAccess>();
+
+  const accessOf = (ref: ModuleRef) => {
+    const mod = modules.find((m) => (typeof ref === "number" ? m.id === ref : m.name === ref));
+    if (!mod || userId === null) return null;
+    if (!cache.has(mod.id)) cache.set(mod.id, effectiveAccess(model, userId, mod.id, index));
+    return cache.get(mod.id)!;
+  };
+
+  return {
+    can: (module, action) => {
+      const access = accessOf(module);
+      return !!access && isAllowed(access, "actions", action);
+    },
+    fields: (module) => {
+      const access = accessOf(module);
+      if (!access) return noFields;
+      const visible = allowedFields(access, "visible");
+      const editable = allowedFields(access, "editable");
+      return { visible, editable, canView: (f) => visible.includes(f), canEdit: (f) => editable.includes(f) };
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { AccessReview } from "../api/types";
+import { canDecide, canSignOff, decideItems, reviewItems, reviewProgress } from "./accessReview";
+import type { AuthModel } from "./permissions";
+
+const users = [
+  { id: 1, name: "Alice" },
+  { id: 2, name: "Bob" },
+];
+const modules = [{ id: 1, name: "Sales", fields: ["amount"] }];
+const model: AuthModel = {
+  roles: [
+    { id: 1, name: "Manager", parentIds: [2] },
+    { id: 2, name: "Employee" },
+    { id: 3, name: "Auditor" },
+  ],
+  permissions: [
+    { roleId: 2, moduleId: 1, actions: ["read", "update"], visibleFields: ["amount"], editableFields: [] },
+    { roleId: 3, moduleId: 1, actions: [], deniedActions: ["update"] },
+  ],
+  userRoles: [
+    { userId: 1, roleId: 1 },
+    { userId: 2, roleId: 2 },
+    { userId: 2, roleId: 3 },
+  ],
+};
+
+describe("reviewItems", () => {
+  it("lists the effective rights, with denies applied and inheritance named", () => {
+    const items = reviewItems(model, users, modules);
+
+    expect(items.map((i) => `${i.user} ${i.right} ${i.name}`)).toEqual([
+      "Alice action read",
+      "Alice action update",
+      "Alice query amount",
+      "Bob action read",
+      "Bob query amount",
+    ]);
+    expect(items[0].roles).toEqual([{ role: "Employee", via: "Manager" }]);
+  });
+});
+
+describe("decideItems", () => {
+  const review: AccessReview = { id: 1, name: "Q3", createdAt: "", createdBy: "Alice", items: reviewItems(model, users, modules) };
+  const carol = { id: 3, name: "Carol" };
+
+  it("records decisions until every item is decided, and takes them back with null", () => {
+    const keys = review.items.map((i) => i.key);
+    const partly = decideItems(review, keys.slice(0, 2), "approved", carol);
+    expect(reviewProgress(partly)).toEqual({ total: 5, approved: 2, flagged: 0, pending: 3 });
+    expect(canSignOff(partly)).toBe(false);
+
+    const done = decideItems(partly, keys.slice(2), "flagged", carol, "too broad");
+    expect(done.items[4]).toMatchObject({ decision: "flagged", reviewer: "Carol", comment: "too broad" });
+    expect(canSignOff(done)).toBe(true);
+
+    expect(decideItems(done, [keys[0]], null, carol).items[0]).not.toHaveProperty("decision");
+  });
+
+  it("leaves the reviewer's own rights undecided", () => {
+    const [alice] = users;
+    const decided = decideItems(review, review.items.map((i) => i.key), "approved", alice);
+
+    expect(decided.items.filter((i) => i.decision).map((i) => i.user)).toEqual(["Bob", "Bob"]);
+    expect(review.items.map((i) => canDecide(i, alice))).toEqual([false, false, false, true, true]);
+  });
+});
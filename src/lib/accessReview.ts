@@ -0,0 +1,98 @@
+import { ACTIONS, type AccessReview, type Module, type ReviewDecision, type ReviewItem, type User } from "../api/types";
+import { t } from "./i18n";
+import { csvCell } from "./modelTransfer";
+import { allowedFields, buildAccessIndex, effectiveAccess, isAllowed, type AuthModel, type Grant } from "./permissions";
+
+// Access review campaigns (quarterly recertification): a snapshot of every effective right,
+// one decision per right, and a report once the campaign is signed off
+
+const grantRoles = (grants: Grant[]) => grants.map((g) => (g.inherited ? { role: g.role.name, via: g.via.name } : { role: g.role.name }));
+
+// Every right the users effectively hold (deny rules applied), one item per user / module / action or field right
+export function reviewItems(model: AuthModel, users: User[], modules: Module[]): ReviewItem[] {
+  const index = buildAccessIndex(model);
+  return users.flatMap((u) =>
+    modules.flatMap((m) => {
+      const access = effectiveAccess(model, u.id, m.id, index);
+      const item = (right: ReviewItem["right"], name: string, grants: Grant[]): ReviewItem => ({
+        key: `${u.id}-${m.id}-${right}-${name}`,
+        userId: u.id,
+        user: u.name,
+        moduleId: m.id,
+        module: m.name,
+        right,
+        name,
+        roles: grantRoles(grants),
+      });
+      return [
+        ...ACTIONS.filter((a) => isAllowed(access, "actions", a)).map((a) => item("action", a, access.actions[a])),
+        ...allowedFields(access, "visible").map((f) => item("query", f, access.visible[f])),
+        ...allowedFields(access, "editable").map((f) => item("update", f, access.editable[f])),
+      ];
+    })
+  );
+}
+
+export function newReview(name: string, createdBy: string, items: ReviewItem[]): Omit<AccessReview, "id"> {
+  return { name, createdAt: new Date().toISOString(), createdBy, items };
+}
+
+// Nobody recertifies their own access
+export const canDecide = (item: ReviewItem, reviewer: User) => item.userId !== reviewer.id;
+
+// The review with decisions recorded on some items (the reviewer's own are skipped); applied to the
+// latest server copy so reviewers working on the same campaign don't undo each other's decisions
+export function decideItems(review: AccessReview, keys: string[], decision: ReviewDecision | null, reviewer: User, comment?: string): AccessReview {
+  const decidedAt = new Date().toISOString();
+  return {
+    ...review,
+    items: review.items.map((i) => {
+      if (!keys.includes(i.key) || !canDecide(i, reviewer)) return i;
+      const { decision: _decision, comment: _comment, reviewer: _reviewer, decidedAt: _decidedAt, ...rest } = i;
+      // null takes the decision back
+      return decision ? { ...rest, decision, reviewer: reviewer.name, decidedAt, ...(comment ? { comment } : {}) } : rest;
+    }),
+  };
+}
+
+export function reviewProgress(review: AccessReview) {
+  const approved = review.items.filter((i) => i.decision === "approved").length;
+  const flagged = review.items.filter((i) => i.decision === "flagged").length;
+  return { total: review.items.length, approved, flagged, pending: review.items.length - approved - flagged };
+}
+
+export const canSignOff = (review: AccessReview) => !review.signedOffAt && reviewProgress(review).pending === 0;
+
+// "Manager, Employee via Manager"
+export const describeItemRoles = (item: ReviewItem) =>
+  item.roles.map((r) => (r.via ? t("rights.inheritedVia", { role: r.role, via: r.via }) : r.role)).join(", ");
+
+// CSV report: the campaign and its sign-off first, then one row per reviewed right
+export function reviewReportCsv(review: AccessReview): string {
+  const { total, approved, flagged, pending } = reviewProgress(review);
+  const rows = [
+    ["campaign", review.name],
+    ["createdBy", review.createdBy],
+    ["createdAt", review.createdAt],
+    ["signedOffBy", review.signedOffBy ?? ""],
+    ["signedOffAt", review.signedOffAt ?? ""],
+    ["items", String(total)],
+    ["approved", String(approved)],
+    ["flagged", String(flagged)],
+    ["pending", String(pending)],
+    [],
+    ["user", "module", "right", "name", "roles", "decision", "reviewer", "decidedAt", "comment"],
+    ...review.items.map((i) => [
+      i.user,
+      i.module,
+      i.right,
+      i.name,
+      i.roles.map((r) => (r.via ? `${r.role} via ${r.via}` : r.role)).join("; "),
+      i.decision ?? "pending",
+      i.reviewer ?? "",
+      i.decidedAt ?? "",
+      i.comment ?? "",
+    ]),
+  ];
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+}
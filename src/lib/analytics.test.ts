@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { Permission } from "../api/types";
+import { buildDashboard } from "./analytics";
+
+const users = [
+  { id: 1, name: "Alice" },
+  { id: 2, name: "Bob" },
+];
+const modules = [
+  { id: 1, name: "Sales", fields: ["amount"] },
+  { id: 2, name: "HR", fields: ["salary"] },
+];
+const roles = [
+  { id: 1, name: "Admin" },
+  { id: 2, name: "Clerk" },
+  { id: 3, name: "Viewer" },
+  { id: 4, name: "Reader", parentIds: [3] },
+];
+const perm = (roleId: number, actions: string[]): Permission => ({ roleId, moduleId: 1, actions, visibleFields: ["amount"], editableFields: [] });
+
+describe("buildDashboard", () => {
+  const dashboard = buildDashboard(
+    { roles, permissions: [perm(1, ["read", "delete"]), perm(2, ["read"]), perm(3, ["read"])], userRoles: [{ userId: 1, roleId: 1 }, { userId: 2, roleId: 2 }] },
+    users,
+    modules
+  );
+
+  it("reports who may delete and through which role", () => {
+    expect(dashboard.sensitiveDeletes.map((d) => [d.user.name, d.module.name, d.grants.map((g) => g.role.name)])).toEqual([["Alice", "Sales", ["Admin"]]]);
+  });
+
+  it("reports roles nobody holds with the roles that extend them", () => {
+    expect(dashboard.unusedRoles.map((u) => [u.role.name, u.inheritedBy.map((r) => r.name)])).toEqual([["Viewer", ["Reader"]], ["Reader", []]]);
+  });
+
+  it("reports modules nobody may read", () => {
+    expect(dashboard.modulesNobodyReads.map((m) => m.name)).toEqual(["HR"]);
+  });
+
+  it("groups roles granting the same effective rights, inherited ones included", () => {
+    expect(dashboard.duplicateRoles.map((g) => g.map((r) => r.name))).toEqual([["Clerk", "Viewer", "Reader"]]);
+  });
+
+  it("does not count a role with extra deny rules as a duplicate", () => {
+    const { duplicateRoles } = buildDashboard(
+      { roles, permissions: [perm(2, ["read"]), { ...perm(3, ["read"]), deniedActions: ["delete"] }], userRoles: [] },
+      users,
+      modules
+    );
+    // Reader inherits the deny along with the grant
+    expect(duplicateRoles.map((g) => g.map((r) => r.name))).toEqual([["Viewer", "Reader"]]);
+  });
+});
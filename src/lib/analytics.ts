@@ -0,0 +1,69 @@
+import { ACTIONS, type Module, type Role, type User } from "../api/types";
+import { accessForRoles, allowedFields, buildAccessIndex, effectiveAccess, isAllowed, type AccessIndex, type AuthModel, type Grant } from "./permissions";
+
+// Findings for the permissions dashboard: risky or dead parts of the authorization model
+
+// Modules whose delete right is reported (VITE_SENSITIVE_MODULES, comma separated names); unset = all
+export const SENSITIVE_MODULES = (import.meta.env.VITE_SENSITIVE_MODULES || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+export const isSensitive = (module: Module) => !SENSITIVE_MODULES.length || SENSITIVE_MODULES.includes(module.name);
+
+export type Dashboard = {
+  // who may delete on a sensitive module, and through which roles
+  sensitiveDeletes: { user: User; module: Module; grants: Grant[] }[];
+  // roles nobody holds; inheritedBy = roles extending them, which still pass their rights on
+  unusedRoles: { role: Role; inheritedBy: Role[] }[];
+  modulesNobodyReads: Module[];
+  // groups of two or more roles with exactly the same grants and deny rules (roles with neither are left out)
+  duplicateRoles: Role[][];
+};
+
+// What a single role (with its ancestors) grants and denies on every module, as a comparable string.
+// Deny rules count: they also override what the user's other roles grant.
+function roleSignature(roleId: number, modules: Module[], index: AccessIndex) {
+  const parts = modules.flatMap((m) => {
+    const access = accessForRoles([roleId], m.id, index);
+    const lists = [
+      ACTIONS.filter((a) => isAllowed(access, "actions", a)),
+      allowedFields(access, "visible").sort(),
+      allowedFields(access, "editable").sort(),
+      ACTIONS.filter((a) => access.denied.actions[a].length),
+      Object.keys(access.denied.visible).sort(),
+      Object.keys(access.denied.editable).sort(),
+    ];
+    return lists.some((l) => l.length) ? [`${m.id}:${lists.map((l) => l.join(",")).join(":")}`] : [];
+  });
+  return parts.join("|");
+}
+
+export function buildDashboard(model: AuthModel, users: User[], modules: Module[]): Dashboard {
+  const index = buildAccessIndex(model);
+
+  const sensitiveDeletes = users.flatMap((user) =>
+    modules.filter(isSensitive).flatMap((module) => {
+      const access = effectiveAccess(model, user.id, module.id, index);
+      return isAllowed(access, "actions", "delete") ? [{ user, module, grants: access.actions.delete }] : [];
+    })
+  );
+
+  const heldRoleIds = new Set(model.userRoles.map((ur) => ur.roleId));
+  const unusedRoles = model.roles
+    .filter((r) => !heldRoleIds.has(r.id))
+    .map((role) => ({ role, inheritedBy: model.roles.filter((r) => (index.ancestorsByRole.get(r.id) ?? []).includes(role.id)) }));
+
+  const modulesNobodyReads = modules.filter(
+    (m) => !users.some((u) => isAllowed(effectiveAccess(model, u.id, m.id, index), "actions", "read"))
+  );
+
+  const bySignature = new Map<string, Role[]>();
+  model.roles.forEach((r) => {
+    const signature = roleSignature(r.id, modules, index);
+    if (signature) bySignature.set(signature, [...(bySignature.get(signature) ?? []), r]);
+  });
+  const duplicateRoles = Array.from(bySignature.values()).filter((group) => group.length > 1);
+
+  return { sensitiveDeletes, unusedRoles, modulesNobodyReads, duplicateRoles };
+}
@@ -0,0 +1,83 @@
+import type { AuditEntry, Permission, UserRole } from "../api/types";
+import { samePermission, userRoleKey, type PendingChange, type PermissionList } from "./draft";
+import { actionLabel, t, type MessageKey } from "./i18n";
+import { permKey } from "./permissions";
+
+// Filtering, diffing and reverting of audit log entries (History tab)
+
+export type AuditFilters = {
+  userId: number | null;
+  roleId: number | null;
+  moduleId: number | null;
+  // yyyy-mm-dd, local time, inclusive; "" = open
+  from: string;
+  to: string;
+};
+
+export const defaultAuditFilters: AuditFilters = { userId: null, roleId: null, moduleId: null, from: "", to: "" };
+
+// Entries matching the filters, newest first. The user filter matches that user's role assignments
+// and changes to permissions of the roles the user currently holds (they changed what the user can do).
+export function filterAuditEntries(entries: AuditEntry[], filters: AuditFilters, userRoles: UserRole[]) {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+  const heldRoles = filters.userId === null ? [] : userRoles.filter((ur) => ur.userId === filters.userId).map((ur) => ur.roleId);
+
+  return entries
+    .filter((e) => {
+      const at = new Date(e.at).getTime();
+      if (at < from || at > to) return false;
+      if (filters.roleId !== null && e.roleId !== filters.roleId) return false;
+      if (filters.moduleId !== null && e.moduleId !== filters.moduleId) return false;
+      if (filters.userId !== null) {
+        return e.entity === "userRole" ? e.userId === filters.userId : heldRoles.includes(e.roleId);
+      }
+      return true;
+    })
+    .sort((a, b) => b.at.localeCompare(a.at) || (b.id ?? 0) - (a.id ?? 0));
+}
+
+export const permissionLists: [PermissionList, MessageKey][] = [
+  ["actions", "change.actions"],
+  ["visibleFields", "change.queryFields"],
+  ["editableFields", "change.updateFields"],
+  ["deniedActions", "history.deniedActions"],
+  ["deniedVisibleFields", "history.deniedQueryFields"],
+  ["deniedEditableFields", "history.deniedUpdateFields"],
+];
+
+// What an entry changed, e.g. ["actions +delete", "query fields -amount"]
+export function auditDiff(entry: AuditEntry): string[] {
+  if (entry.entity === "userRole") return [t(entry.op === "delete" ? "history.roleRemoved" : "history.roleAssigned")];
+  const before = (entry.before ?? {}) as Partial<Permission>;
+  const after = (entry.after ?? {}) as Partial<Permission>;
+  return permissionLists.flatMap(([key, label]) => {
+    const b = (before[key] as string[] | undefined) ?? [];
+    const a = (after[key] as string[] | undefined) ?? [];
+    // action values are shown with their translated labels
+    const show = (x: string) => (key === "actions" || key === "deniedActions" ? actionLabel(x) : x);
+    const changes = [...a.filter((x) => !b.includes(x)).map((x) => `+${show(x)}`), ...b.filter((x) => !a.includes(x)).map((x) => `-${show(x)}`)];
+    return changes.length ? [`${t(label)} ${changes.join(" ")}`] : [];
+  });
+}
+
+// The change that puts the entry's record back to its "before" state, computed against the
+// records as they are now; null when there is nothing left to undo
+export function revertChange(entry: AuditEntry, current: { permissions: Permission[]; userRoles: UserRole[] }): PendingChange | null {
+  if (entry.entity === "userRole") {
+    const target = (entry.before ?? entry.after) as UserRole;
+    const key = userRoleKey(target.userId, target.roleId);
+    const now = current.userRoles.find((ur) => userRoleKey(ur.userId, ur.roleId) === key) ?? null;
+    if (!entry.before) return now ? { kind: "userRole", op: "delete", key, before: now, after: null } : null;
+    return now ? null : { kind: "userRole", op: "create", key, before: null, after: entry.before as UserRole };
+  }
+
+  const target = (entry.before ?? entry.after) as Permission;
+  const key = permKey(target.roleId, target.moduleId);
+  const now = current.permissions.find((p) => permKey(p.roleId, p.moduleId) === key) ?? null;
+  // lists missing from the old record are cleared too, not left as they are now
+  const before = entry.before && ({ ...Object.fromEntries(permissionLists.map(([k]) => [k, []])), ...entry.before } as Permission);
+  if (!before) return now ? { kind: "permission", op: "delete", key, before: now, after: null } : null;
+  if (!now) return { kind: "permission", op: "create", key, before: null, after: { ...before, id: undefined } };
+  return samePermission(now, before) ? null : { kind: "permission", op: "update", key, before: now, after: { ...before, id: now.id } };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { Permission } from "../api/types";
+import { changedLists, diffDraft, mergePermission } from "./draft";
+
+const base: Permission = { id: 1, roleId: 1, moduleId: 1, actions: ["read", "update"], visibleFields: ["amount", "notes"], editableFields: [] };
+
+describe("mergePermission", () => {
+  const stored = { ...base, version: 1 };
+
+  it("keeps the other admin's changes to lists this edit left alone", () => {
+    const current = { ...stored, visibleFields: ["amount"], version: 2 };
+    const result = mergePermission(stored, current, { actions: ["read", "update", "delete"], visibleFields: ["amount", "notes"] });
+    expect(result).toEqual({ ok: true, record: { ...current, actions: ["read", "update", "delete"] } });
+  });
+
+  it("accepts both sides making the same change, in any order", () => {
+    const current = { ...stored, actions: ["delete", "update", "read"], version: 2 };
+    expect(mergePermission(stored, current, { actions: ["read", "update", "delete"] })).toMatchObject({ ok: true });
+  });
+
+  it("reports lists both sides changed differently", () => {
+    const current = { ...stored, actions: ["read"], version: 2 };
+    expect(mergePermission(stored, current, { actions: ["read", "update", "delete"] })).toEqual({ ok: false, conflicts: ["actions"] });
+  });
+});
+
+describe("changedLists", () => {
+  it("leaves out the lists an editor showed but did not touch, so merging keeps another admin's change", () => {
+    const opened = { visibleFields: ["amount", "notes"], editableFields: [] };
+    // another admin made notes editable while the editor was open; the page has reloaded since
+    const latest = { ...base, editableFields: ["notes"], version: 2 };
+    const edited = { visibleFields: ["amount"], editableFields: [] };
+
+    expect(mergePermission(latest, latest, edited)).toEqual({ ok: true, record: { ...latest, visibleFields: ["amount"], editableFields: [] } });
+    expect(changedLists(opened, edited)).toEqual({ visibleFields: ["amount"] });
+    expect(mergePermission(latest, latest, changedLists(opened, edited))).toEqual({ ok: true, record: { ...latest, visibleFields: ["amount"] } });
+  });
+});
+
+describe("diffDraft", () => {
+  it("matches records by role / module and user / role rather than id", () => {
+    const changes = diffDraft(
+      { permissions: [base, { roleId: 2, moduleId: 1, actions: ["read"] }], userRoles: [{ id: 1, userId: 1, roleId: 1 }] },
+      // re-created records without ids, the assignment toggled off and on again
+      {
+        permissions: [{ ...base, id: undefined, actions: ["read"] }, { roleId: 3, moduleId: 1, actions: ["read"] }],
+        userRoles: [{ userId: 1, roleId: 1 }, { userId: 2, roleId: 1 }],
+      }
+    );
+
+    expect(changes.map((c) => [c.kind, c.op, c.key])).toEqual([
+      ["userRole", "create", "2-1"],
+      ["permission", "update", "1-1"],
+      ["permission", "create", "3-1"],
+      ["permission", "delete", "2-1"],
+    ]);
+  });
+
+  it("counts a change to the deny lists alone as an update", () => {
+    const working = { permissions: [{ ...base, deniedActions: ["delete"] }], userRoles: [] };
+    expect(diffDraft({ permissions: [base], userRoles: [] }, working)).toMatchObject([{ kind: "permission", op: "update" }]);
+  });
+
+  it("is empty when the working copy only reorders lists", () => {
+    const working = { permissions: [{ ...base, actions: ["update", "read"], visibleFields: ["notes", "amount"] }], userRoles: [] };
+    expect(diffDraft({ permissions: [base], userRoles: [] }, working)).toEqual([]);
+  });
+});
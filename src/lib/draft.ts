@@ -0,0 +1,78 @@
+import type { Permission, UserRole } from "../api/types";
+import { permKey } from "./permissions";
+
+// Pending changes between the server snapshot and the local working copy (draft mode)
+
+export type ChangeOp = "create" | "update" | "delete";
+
+export type PendingChange =
+  | { kind: "permission"; op: ChangeOp; key: string; before: Permission | null; after: Permission | null }
+  | { kind: "userRole"; op: ChangeOp; key: string; before: UserRole | null; after: UserRole | null };
+
+export const userRoleKey = (userId: number, roleId: number) => `${userId}-${roleId}`;
+
+export const sameList = (a: string[] = [], b: string[] = []) =>
+  a.length === b.length && a.every((x) => b.includes(x));
+
+// the lists an admin edits on a Permission
+export const PERMISSION_LISTS = ["actions", "visibleFields", "editableFields", "deniedActions", "deniedVisibleFields", "deniedEditableFields"] as const;
+export type PermissionList = (typeof PERMISSION_LISTS)[number];
+
+export const samePermission = (a: Permission, b: Permission) => PERMISSION_LISTS.every((k) => sameList(a[k], b[k]));
+
+// The lists of an editor's copy that differ from what it opened with: editors send only these, so a
+// list shown but left alone cannot overwrite a change another admin made meanwhile
+export const changedLists = (opened: Partial<Permission>, edited: Partial<Permission>): Partial<Permission> =>
+  Object.fromEntries(PERMISSION_LISTS.filter((k) => k in edited && !sameList(edited[k], opened[k])).map((k) => [k, edited[k]]));
+
+export type MergeResult = { ok: true; record: Permission } | { ok: false; conflicts: PermissionList[] };
+
+// Three-way merge of an edit made on `base` into the server's `current` copy: lists only the
+// other admin changed are kept, lists only this edit changed are taken from the patch, and a
+// list both changed to different values is a conflict
+export function mergePermission(base: Permission, current: Permission, patch: Partial<Permission>): MergeResult {
+  const changed = PERMISSION_LISTS.filter((k) => k in patch && !sameList(patch[k], base[k]));
+  const conflicts = changed.filter((k) => !sameList(base[k], current[k]) && !sameList(patch[k], current[k]));
+  if (conflicts.length) return { ok: false, conflicts };
+  return { ok: true, record: { ...current, ...Object.fromEntries(changed.map((k) => [k, patch[k]])) } };
+}
+
+// Records are matched by their natural key (role/module pair, user/role pair) rather than id,
+// so that un-toggling something in the draft cancels out instead of producing a delete + create.
+function diffByKey<T>(base: T[], working: T[], keyOf: (r: T) => string, same: (a: T, b: T) => boolean) {
+  const before = new Map(base.map((r) => [keyOf(r), r]));
+  const after = new Map(working.map((r) => [keyOf(r), r]));
+  const out: { op: ChangeOp; key: string; before: T | null; after: T | null }[] = [];
+
+  after.forEach((a, key) => {
+    const b = before.get(key);
+    if (!b) out.push({ op: "create", key, before: null, after: a });
+    else if (!same(b, a)) out.push({ op: "update", key, before: b, after: a });
+  });
+  before.forEach((b, key) => {
+    if (!after.has(key)) out.push({ op: "delete", key, before: b, after: null });
+  });
+  return out;
+}
+
+export function diffDraft(
+  base: { permissions: Permission[]; userRoles: UserRole[] },
+  working: { permissions: Permission[]; userRoles: UserRole[] }
+): PendingChange[] {
+  return [
+    ...diffByKey(base.userRoles, working.userRoles, (r) => userRoleKey(r.userId, r.roleId), () => true)
+      .map((c) => ({ kind: "userRole" as const, ...c })),
+    ...diffByKey(base.permissions, working.permissions, (p) => permKey(p.roleId, p.moduleId), samePermission)
+      .map((c) => ({ kind: "permission" as const, ...c })),
+  ];
+}
+
+// The records with one change applied, to check its effect before it is sent
+export function withChange(records: { permissions: Permission[]; userRoles: UserRole[] }, change: PendingChange) {
+  if (change.kind === "userRole") {
+    const rest = records.userRoles.filter((ur) => userRoleKey(ur.userId, ur.roleId) !== change.key);
+    return { ...records, userRoles: change.after ? [...rest, change.after] : rest };
+  }
+  const rest = records.permissions.filter((p) => permKey(p.roleId, p.moduleId) !== change.key);
+  return { ...records, permissions: change.after ? [...rest, change.after] : rest };
+}
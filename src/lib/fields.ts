@@ -0,0 +1,17 @@
+import type { Module } from "../api/types";
+
+// normalize module fields (backend may send a JSON string or an array)
+export function moduleFields(moduleObj: Module): string[] {
+  if (Array.isArray(moduleObj.fields)) return moduleObj.fields;
+  try {
+    const parsed = JSON.parse(moduleObj.fields || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// serialize fields back in the same shape the module had when loaded
+export function serializeFields(fields: string[], original?: Module["fields"]) {
+  return typeof original === "string" ? JSON.stringify(fields) : fields;
+}
@@ -0,0 +1,51 @@
+import { ACTIONS, type Action } from "../api/types";
+import { en, type MessageKey } from "../locales/en";
+import { es } from "../locales/es";
+
+export type { MessageKey };
+
+// UI languages and their names in their own language (for the switcher)
+export const LOCALES = { en: "English", es: "Español" } as const;
+export type Locale = keyof typeof LOCALES;
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+// per browser
+const STORAGE_KEY = "locale";
+
+function initialLocale(): Locale {
+  const stored = typeof localStorage !== "undefined" ? localStorage.getItem(STORAGE_KEY) : null;
+  if (stored && stored in LOCALES) return stored as Locale;
+  const browser = typeof navigator !== "undefined" ? navigator.language.slice(0, 2) : "";
+  return browser in LOCALES ? (browser as Locale) : "en";
+}
+
+// read lazily so importing the module has no side effects
+let current: Locale | null = null;
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => (current ??= initialLocale());
+
+export function setLocale(locale: Locale) {
+  current = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+  listeners.forEach((l) => l());
+}
+
+export function subscribeLocale(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// t("pagination.range", { from: 1, to: 50, total: 120 }) -> "1–50 of 120"
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  return catalogs[getLocale()][key].replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// Display label of an action; the API keeps the English values. Anything else (bad data, an
+// import file) is shown as it is.
+export const actionLabel = (action: string) => ((ACTIONS as readonly string[]).includes(action) ? t(`action.${action as Action}`) : action);
+
+export const formatDateTime = (iso: string) => new Date(iso).toLocaleString(getLocale());
@@ -0,0 +1,13 @@
+import type { Action } from "../api/types";
+
+// Search / filter / paging state of the matrices; kept in the URL (see lib/route)
+export type MatrixFilters = {
+  search: string;
+  roleId: number | null;
+  moduleId: number | null;
+  action: Action | null;
+  page: number;
+  pageSize: number;
+};
+
+export const defaultMatrixFilters: MatrixFilters = { search: "", roleId: null, moduleId: null, action: null, page: 0, pageSize: 50 };
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { t } from "./i18n";
+import { csvCell, exportModel, importResult, MODEL_FORMAT, MODEL_VERSION, parseModelDocument, planImport, type ModelDocument, type Snapshot } from "./modelTransfer";
+
+const current: Snapshot = {
+  users: [{ id: 1, name: "Alice" }],
+  roles: [
+    { id: 1, name: "Manager", parentIds: [2] },
+    { id: 2, name: "Employee" },
+  ],
+  modules: [{ id: 1, name: "Sales", fields: JSON.stringify(["amount", "notes"]) }],
+  permissions: [{ id: 1, roleId: 2, moduleId: 1, actions: ["read"], visibleFields: ["amount"], editableFields: [] }],
+  userRoles: [{ id: 1, userId: 1, roleId: 1 }],
+};
+
+const doc = (patch: Partial<ModelDocument>): ModelDocument => ({ ...exportModel(current), ...patch });
+
+describe("planImport", () => {
+  it("finds nothing to do when importing the current model", () => {
+    const plan = planImport(exportModel(current), current);
+    expect(plan.issues).toEqual([]);
+    expect([...plan.roles, ...plan.modules, ...plan.permissions, ...plan.userRoles].every((s) => s.op === "unchanged")).toBe(true);
+  });
+
+  it("plans creates and updates by name", () => {
+    const plan = planImport(
+      doc({
+        roles: [{ name: "Manager", parents: [] }, { name: "Employee" }, { name: "Auditor", parents: ["Employee"] }],
+        permissions: [
+          { role: "Employee", module: "Sales", actions: ["read", "update"], visibleFields: ["amount"], editableFields: ["amount"] },
+          { role: "Auditor", module: "Sales", actions: ["read"], visibleFields: [], editableFields: [], deniedActions: ["delete"] },
+        ],
+        userRoles: [{ user: "Alice", role: "Auditor" }],
+      }),
+      current
+    );
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.roles.map((r) => [r.name, r.op])).toEqual([["Manager", "update"], ["Employee", "unchanged"], ["Auditor", "create"]]);
+    expect(plan.permissions.map((p) => [p.role, p.op])).toEqual([["Employee", "update"], ["Auditor", "create"]]);
+    expect(plan.userRoles).toEqual([{ user: "Alice", role: "Auditor", op: "create" }]);
+  });
+
+  it("blocks unknown references, duplicates and inheritance cycles", () => {
+    const plan = planImport(
+      doc({
+        roles: [{ name: "Employee", parents: ["Manager"] }, { name: "Auditor", parents: ["Nobody"] }],
+        permissions: [
+          { role: "Ghost", module: "Sales", actions: ["fly"], visibleFields: ["secret"], editableFields: [] },
+          { role: "Employee", module: "Sales", actions: [], visibleFields: [], editableFields: [], deniedVisibleFields: ["notes"] },
+          { role: "Employee", module: "Sales", actions: [], visibleFields: [], editableFields: [] },
+        ],
+        userRoles: [{ user: "Zoe", role: "Employee" }],
+      }),
+      current
+    );
+
+    const ghost = "permissions[0] (Ghost / Sales)";
+    expect(plan.issues).toEqual([
+      t("transfer.unknownParent", { name: "Auditor", parent: "Nobody" }),
+      t("transfer.cycle", { name: "Employee" }),
+      t("transfer.unknownRole", { where: ghost, role: "Ghost" }),
+      t("transfer.unknownAction", { where: ghost, action: "fly", actions: "read, create, update, delete" }),
+      t("transfer.unknownField", { where: ghost, field: "secret" }),
+      t("transfer.duplicatePair", { where: "permissions[2] (Employee / Sales)" }),
+      t("transfer.unknownUser", { where: "userRoles[0]", user: "Zoe" }),
+    ]);
+  });
+});
+
+describe("importResult", () => {
+  it("applies the plan, giving new roles placeholder ids", () => {
+    const plan = planImport(
+      doc({
+        roles: [{ name: "Manager", parents: [] }, { name: "Employee" }, { name: "Auditor", parents: ["Employee"] }],
+        permissions: [{ role: "Auditor", module: "Sales", actions: ["read"], visibleFields: [], editableFields: [] }],
+        userRoles: [{ user: "Alice", role: "Auditor" }],
+      }),
+      current
+    );
+    const result = importResult(plan, current);
+
+    expect(result.roles).toEqual([{ id: 1, name: "Manager", parentIds: [] }, { id: 2, name: "Employee" }, { id: -1, name: "Auditor", parentIds: [2] }]);
+    expect(result.permissions.map((p) => [p.roleId, p.actions])).toEqual([[2, ["read"]], [-1, ["read"]]]);
+    expect(result.userRoles.map((ur) => ur.roleId)).toEqual([1, -1]);
+  });
+});
+
+describe("parseModelDocument", () => {
+  it("accepts an exported document", () => {
+    const text = JSON.stringify(exportModel(current));
+    expect(parseModelDocument(text)).toMatchObject({ format: MODEL_FORMAT, version: MODEL_VERSION });
+  });
+
+  it.each(["not json", "null", "[]", JSON.stringify({ format: MODEL_FORMAT, version: 99 }), JSON.stringify({ ...exportModel(current), roles: {} })])(
+    "rejects %s",
+    (text) => expect(() => parseModelDocument(text)).toThrow()
+  );
+});
+
+describe("csvCell", () => {
+  it("quotes separators and line breaks and defuses formulas", () => {
+    expect(csvCell("plain")).toBe("plain");
+    expect(csvCell('a,"b"')).toBe('"a,""b"""');
+    expect(csvCell("a\rb")).toBe('"a\rb"');
+    expect(csvCell("=SUM(A1)")).toBe("'=SUM(A1)");
+    expect(csvCell("-1+1")).toBe("'-1+1");
+    expect(csvCell("@cmd")).toBe("'@cmd");
+  });
+});
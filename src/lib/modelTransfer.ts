@@ -0,0 +1,313 @@
+import { ACTIONS, type Module, type Permission, type Role, type User, type UserRole } from "../api/types";
+import { moduleFields } from "./fields";
+import { t } from "./i18n";
+import { allowedFields, buildAccessIndex, effectiveAccess, isAllowed } from "./permissions";
+
+// Export / import of the whole authorization model. Records reference each other by name,
+// not id, so a document can be moved between environments whose ids differ.
+
+export const MODEL_FORMAT = "authorization-model";
+export const MODEL_VERSION = 1;
+
+export type ModelDocument = {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  exportedAt: string;
+  // parents: names of the roles this one inherits from; omitted = leave as is on import
+  roles: { name: string; parents?: string[] }[];
+  modules: { name: string; fields: string[] }[];
+  permissions: {
+    role: string;
+    module: string;
+    actions: string[];
+    visibleFields: string[];
+    editableFields: string[];
+    // optional in documents written before deny rules existed
+    deniedActions?: string[];
+    deniedVisibleFields?: string[];
+    deniedEditableFields?: string[];
+  }[];
+  userRoles: { user: string; role: string }[];
+};
+
+export type Snapshot = {
+  users: User[];
+  roles: Role[];
+  modules: Module[];
+  permissions: Permission[];
+  userRoles: UserRole[];
+};
+
+const byId = <T extends { id: number; name: string }>(items: T[]) => new Map(items.map((i) => [i.id, i.name]));
+
+export function exportModel(s: Snapshot): ModelDocument {
+  const roleName = byId(s.roles);
+  const moduleName = byId(s.modules);
+  const userName = byId(s.users);
+
+  return {
+    format: MODEL_FORMAT,
+    version: MODEL_VERSION,
+    exportedAt: new Date().toISOString(),
+    roles: s.roles.map((r) => ({
+      name: r.name,
+      parents: (r.parentIds ?? []).filter((id) => roleName.has(id)).map((id) => roleName.get(id)!),
+    })),
+    modules: s.modules.map((m) => ({ name: m.name, fields: moduleFields(m) })),
+    permissions: s.permissions
+      .filter((p) => roleName.has(p.roleId) && moduleName.has(p.moduleId))
+      .map((p) => ({
+        role: roleName.get(p.roleId)!,
+        module: moduleName.get(p.moduleId)!,
+        actions: p.actions || [],
+        visibleFields: p.visibleFields || [],
+        editableFields: p.editableFields || [],
+        deniedActions: p.deniedActions || [],
+        deniedVisibleFields: p.deniedVisibleFields || [],
+        deniedEditableFields: p.deniedEditableFields || [],
+      })),
+    userRoles: s.userRoles
+      .filter((ur) => userName.has(ur.userId) && roleName.has(ur.roleId))
+      .map((ur) => ({ user: userName.get(ur.userId)!, role: roleName.get(ur.roleId)! })),
+  };
+}
+
+// Quoted when needed; cells a spreadsheet would run as a formula (=, +, -, @, tab, CR) get a leading '
+export function csvCell(value: string) {
+  const v = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+// users x modules x actions, one row per user/module, for auditors
+export function modelToCsv(s: Snapshot): string {
+  const index = buildAccessIndex(s);
+  const rows = [["user", "module", ...ACTIONS, "visibleFields", "editableFields", "roles", "deniedBy"]];
+
+  s.users.forEach((u) => {
+    s.modules.forEach((m) => {
+      const access = effectiveAccess(s, u.id, m.id, index);
+      const grantingRoles = new Set(
+        [...Object.values(access.actions), ...Object.values(access.visible), ...Object.values(access.editable)]
+          .flat()
+          .map((g) => g.role.name)
+      );
+      const denyingRoles = new Set(
+        [...Object.values(access.denied.actions), ...Object.values(access.denied.visible), ...Object.values(access.denied.editable)]
+          .flat()
+          .map((g) => g.role.name)
+      );
+      rows.push([
+        u.name,
+        m.name,
+        ...ACTIONS.map((a) => (isAllowed(access, "actions", a) ? "yes" : "no")),
+        allowedFields(access, "visible").join(" "),
+        allowedFields(access, "editable").join(" "),
+        Array.from(grantingRoles).join(" "),
+        Array.from(denyingRoles).join(" "),
+      ]);
+    });
+  });
+
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+}
+
+// ---------- Import ----------
+
+export type StepOp = "create" | "update" | "unchanged";
+
+export type ImportPlan = {
+  // blocking problems; nothing is applied while there are any
+  issues: string[];
+  roles: { name: string; parents?: string[]; op: StepOp; existing?: Role }[];
+  modules: { name: string; fields: string[]; op: StepOp; existing?: Module }[];
+  permissions: (ModelDocument["permissions"][number] & { op: StepOp; existing?: Permission })[];
+  userRoles: { user: string; role: string; op: StepOp }[];
+};
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every((x) => b.includes(x));
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Parse + shape-check a JSON document; throws with a readable message
+export function parseModelDocument(text: string): ModelDocument {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error(t("transfer.notJson"));
+  }
+  if (!isRecord(doc) || doc.format !== MODEL_FORMAT) throw new Error(t("transfer.wrongFormat", { format: MODEL_FORMAT }));
+  if (doc.version !== MODEL_VERSION) throw new Error(t("transfer.wrongVersion", { version: String(doc.version), expected: MODEL_VERSION }));
+  for (const key of ["roles", "modules", "permissions", "userRoles"]) {
+    if (!Array.isArray(doc[key])) throw new Error(t("transfer.notArray", { key }));
+  }
+  return doc as ModelDocument;
+}
+
+// Dry run: compare the document with the current data and list what would change
+export function planImport(doc: ModelDocument, current: Snapshot): ImportPlan {
+  const issues: string[] = [];
+  const plan: ImportPlan = { issues, roles: [], modules: [], permissions: [], userRoles: [] };
+
+  const currentRoleName = byId(current.roles);
+  const parentNames = (r: Role) => (r.parentIds ?? []).filter((id) => currentRoleName.has(id)).map((id) => currentRoleName.get(id)!);
+
+  const seenRoles = new Set<string>();
+  doc.roles.forEach((r, i) => {
+    if (!r || typeof r.name !== "string" || !r.name.trim()) return issues.push(t("transfer.missingName", { where: `roles[${i}]` }));
+    if (r.parents !== undefined && !isStringArray(r.parents)) return issues.push(t("transfer.roleParentsType", { name: r.name }));
+    if (seenRoles.has(r.name)) return issues.push(t("transfer.duplicateRole", { name: r.name }));
+    seenRoles.add(r.name);
+    const existing = current.roles.find((x) => x.name === r.name);
+    const op: StepOp = !existing ? "create" : r.parents && !sameSet(parentNames(existing), r.parents) ? "update" : "unchanged";
+    plan.roles.push({ name: r.name, parents: r.parents, op, existing });
+  });
+
+  // module name -> fields the permissions will be validated against
+  const knownFields = new Map(current.modules.map((m) => [m.name, moduleFields(m)]));
+  const seenModules = new Set<string>();
+  doc.modules.forEach((m, i) => {
+    if (!m || typeof m.name !== "string" || !m.name.trim()) return issues.push(t("transfer.missingName", { where: `modules[${i}]` }));
+    if (!isStringArray(m.fields)) return issues.push(t("transfer.moduleFieldsType", { name: m.name }));
+    if (seenModules.has(m.name)) return issues.push(t("transfer.duplicateModule", { name: m.name }));
+    seenModules.add(m.name);
+    const existing = current.modules.find((x) => x.name === m.name);
+    const op: StepOp = !existing ? "create" : sameSet(moduleFields(existing), m.fields) ? "unchanged" : "update";
+    plan.modules.push({ name: m.name, fields: m.fields, op, existing });
+    knownFields.set(m.name, m.fields);
+  });
+
+  const knownRoles = new Set([...current.roles.map((r) => r.name), ...seenRoles]);
+
+  // inheritance graph after the import, by name; must stay acyclic
+  const parentsAfter = new Map(current.roles.map((r) => [r.name, parentNames(r)]));
+  plan.roles.forEach((r) => {
+    (r.parents ?? []).filter((p) => !knownRoles.has(p)).forEach((p) => issues.push(t("transfer.unknownParent", { name: r.name, parent: p })));
+    if (r.parents) parentsAfter.set(r.name, r.parents);
+    else if (!parentsAfter.has(r.name)) parentsAfter.set(r.name, []);
+  });
+  const reaches = (from: string, target: string, seen = new Set<string>()): boolean =>
+    (parentsAfter.get(from) ?? []).some((p) => p === target || (!seen.has(p) && (seen.add(p), reaches(p, target, seen))));
+  plan.roles
+    .filter((r) => r.parents && reaches(r.name, r.name))
+    .forEach((r) => issues.push(t("transfer.cycle", { name: r.name })));
+  const seenPairs = new Set<string>();
+  doc.permissions.forEach((p, i) => {
+    const where = `permissions[${i}] (${p?.role} / ${p?.module})`;
+    if (!p || typeof p.role !== "string" || typeof p.module !== "string") return issues.push(t("transfer.roleAndModuleRequired", { where: `permissions[${i}]` }));
+    if (!knownRoles.has(p.role)) issues.push(t("transfer.unknownRole", { where, role: p.role }));
+    const fields = knownFields.get(p.module);
+    if (!fields) issues.push(t("transfer.unknownModule", { where, module: p.module }));
+
+    const pair = `${p.role}\u0000${p.module}`;
+    if (seenPairs.has(pair)) issues.push(t("transfer.duplicatePair", { where }));
+    seenPairs.add(pair);
+
+    const actions = p.actions ?? [];
+    const visibleFields = p.visibleFields ?? [];
+    const editableFields = p.editableFields ?? [];
+    const deniedActions = p.deniedActions ?? [];
+    const deniedVisibleFields = p.deniedVisibleFields ?? [];
+    const deniedEditableFields = p.deniedEditableFields ?? [];
+    if (![actions, visibleFields, editableFields, deniedActions, deniedVisibleFields, deniedEditableFields].every(isStringArray)) {
+      return issues.push(t("transfer.listsType", { where }));
+    }
+    [...actions, ...deniedActions]
+      .filter((a) => !(ACTIONS as readonly string[]).includes(a))
+      .forEach((a) => issues.push(t("transfer.unknownAction", { where, action: a, actions: ACTIONS.join(", ") })));
+    if (fields) {
+      Array.from(new Set([...visibleFields, ...editableFields, ...deniedVisibleFields, ...deniedEditableFields]))
+        .filter((f) => !fields.includes(f))
+        .forEach((f) => issues.push(t("transfer.unknownField", { where, field: f })));
+    }
+
+    const role = current.roles.find((r) => r.name === p.role);
+    const mod = current.modules.find((m) => m.name === p.module);
+    const existing = role && mod ? current.permissions.find((x) => x.roleId === role.id && x.moduleId === mod.id) : undefined;
+    const op: StepOp = !existing
+      ? "create"
+      : sameSet(existing.actions || [], actions) &&
+        sameSet(existing.visibleFields || [], visibleFields) &&
+        sameSet(existing.editableFields || [], editableFields) &&
+        sameSet(existing.deniedActions || [], deniedActions) &&
+        sameSet(existing.deniedVisibleFields || [], deniedVisibleFields) &&
+        sameSet(existing.deniedEditableFields || [], deniedEditableFields)
+      ? "unchanged"
+      : "update";
+    plan.permissions.push({
+      role: p.role,
+      module: p.module,
+      actions,
+      visibleFields,
+      editableFields,
+      deniedActions,
+      deniedVisibleFields,
+      deniedEditableFields,
+      op,
+      existing,
+    });
+  });
+
+  const seenAssignments = new Set<string>();
+  doc.userRoles.forEach((ur, i) => {
+    if (!ur || typeof ur.user !== "string" || typeof ur.role !== "string") return issues.push(t("transfer.userAndRoleRequired", { where: `userRoles[${i}]` }));
+    const user = current.users.find((u) => u.name === ur.user);
+    if (!user) issues.push(t("transfer.unknownUser", { where: `userRoles[${i}]`, user: ur.user }));
+    if (!knownRoles.has(ur.role)) issues.push(t("transfer.unknownRole", { where: `userRoles[${i}]`, role: ur.role }));
+    const key = `${ur.user}\u0000${ur.role}`;
+    if (seenAssignments.has(key)) return;
+    seenAssignments.add(key);
+    const role = current.roles.find((r) => r.name === ur.role);
+    const exists = !!user && !!role && current.userRoles.some((x) => x.userId === user.id && x.roleId === role.id);
+    plan.userRoles.push({ user: ur.user, role: ur.role, op: exists ? "unchanged" : "create" });
+  });
+
+  return plan;
+}
+
+// The data as it would be after applying the plan (see ImportExport), to check its effect first.
+// Roles and modules the plan creates get placeholder ids below zero.
+export function importResult(plan: ImportPlan, current: Snapshot): Snapshot {
+  let placeholder = 0;
+  const roles: Role[] = [
+    ...current.roles.map((r) => ({ ...r })),
+    ...plan.roles.filter((r) => r.op === "create").map((r) => ({ id: --placeholder, name: r.name })),
+  ];
+  const modules: Module[] = [
+    ...current.modules,
+    ...plan.modules.filter((m) => m.op === "create").map((m) => ({ id: --placeholder, name: m.name, fields: m.fields })),
+  ];
+  const roleId = (name: string) => roles.find((r) => r.name === name)?.id;
+  const moduleId = (name: string) => modules.find((m) => m.name === name)?.id;
+
+  plan.roles
+    .filter((r) => r.op !== "unchanged" && r.parents)
+    .forEach((r) => {
+      roles.find((x) => x.name === r.name)!.parentIds = r.parents!.map(roleId).filter((id): id is number => id !== undefined);
+    });
+
+  let permissions = current.permissions;
+  plan.permissions
+    .filter((p) => p.op !== "unchanged")
+    .forEach(({ role, module, op: _op, existing, ...lists }) => {
+      const rid = roleId(role);
+      const mid = moduleId(module);
+      if (rid === undefined || mid === undefined) return;
+      permissions = [...permissions.filter((x) => x.roleId !== rid || x.moduleId !== mid), { ...existing, roleId: rid, moduleId: mid, ...lists }];
+    });
+
+  const userRoles = [
+    ...current.userRoles,
+    ...plan.userRoles
+      .filter((ur) => ur.op === "create")
+      .flatMap((ur) => {
+        const userId = current.users.find((u) => u.name === ur.user)?.id;
+        const rid = roleId(ur.role);
+        return userId !== undefined && rid !== undefined ? [{ userId, roleId: rid }] : [];
+      }),
+  ];
+
+  return { users: current.users, roles, modules, permissions, userRoles };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { Permission } from "../api/types";
+import { hasPanelAdmins, locksOutPanel } from "./panelAccess";
+import type { AuthModel } from "./permissions";
+
+// Admin runs the panel; Viewer may only read it
+const roles = [
+  { id: 1, name: "Admin" },
+  { id: 2, name: "Viewer" },
+];
+const modules = [
+  { id: 5, name: "Permissions" },
+  { id: 6, name: "Roles" },
+];
+const users = [
+  { id: 1, name: "Alice" },
+  { id: 2, name: "Bob" },
+];
+const perm = (roleId: number, moduleId: number, patch: Partial<Permission>): Permission => ({ roleId, moduleId, actions: [], visibleFields: [], editableFields: [], ...patch });
+const before: AuthModel = {
+  roles,
+  permissions: [perm(1, 5, { actions: ["read", "update"] }), perm(1, 6, { actions: ["read", "update"] }), perm(2, 5, { actions: ["read"] })],
+  userRoles: [
+    { userId: 1, roleId: 1 },
+    { userId: 2, roleId: 2 },
+  ],
+};
+
+describe("locksOutPanel", () => {
+  it("flags unassigning the last user who may run the panel", () => {
+    const after = { ...before, userRoles: before.userRoles.filter((ur) => ur.userId !== 1) };
+
+    expect(hasPanelAdmins(before, modules, users)).toBe(true);
+    expect(locksOutPanel(before, after, modules, users)).toBe(true);
+  });
+
+  it("flags removing the last update right on either panel module, or denying it", () => {
+    const withoutRoles = { ...before, permissions: before.permissions.filter((p) => p.moduleId !== 6) };
+    const denied = { ...before, permissions: [...before.permissions, perm(2, 5, { deniedActions: ["update"] })], userRoles: [...before.userRoles, { userId: 1, roleId: 2 }] };
+
+    expect(locksOutPanel(before, withoutRoles, modules, users)).toBe(true);
+    expect(locksOutPanel(before, denied, modules, users)).toBe(true);
+  });
+
+  it("lets a change through while somebody else keeps the rights", () => {
+    const after = { ...before, userRoles: [{ userId: 2, roleId: 1 }] };
+
+    expect(locksOutPanel(before, after, modules, users)).toBe(false);
+  });
+
+  it("does not flag a model that was already locked", () => {
+    const locked = { ...before, userRoles: [] };
+
+    expect(locksOutPanel(locked, locked, modules, users)).toBe(false);
+  });
+});
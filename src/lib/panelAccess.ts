@@ -0,0 +1,47 @@
+import type { Module, User } from "../api/types";
+import { createAccessChecker } from "./accessChecker";
+import type { AuthModel } from "./permissions";
+
+// The admin panel is governed by the model it manages: two modules of the catalog stand for
+// the panel itself, and the signed-in user's effective rights on them decide what they may do.
+// Their names can be set with VITE_PANEL_PERMISSIONS_MODULE / VITE_PANEL_ROLES_MODULE.
+export const PANEL_MODULES = {
+  permissions: import.meta.env.VITE_PANEL_PERMISSIONS_MODULE || "Permissions",
+  roles: import.meta.env.VITE_PANEL_ROLES_MODULE || "Roles",
+};
+
+// Renaming or deleting one of these would lock every admin out, so the catalog refuses to do either
+export const isPanelModule = (module: Module) => Object.values(PANEL_MODULES).includes(module.name);
+
+// Panel modules the catalog lacks; nobody can open the panel until they are created on the backend
+export const missingPanelModules = (modules: Module[]) => Object.values(PANEL_MODULES).filter((name) => !modules.some((m) => m.name === name));
+
+export type PanelAccess = {
+  // may open the panel at all (read on Permissions)
+  canView: boolean;
+  // may change permissions (update on Permissions); otherwise the matrices are read-only
+  canEditPermissions: boolean;
+  // may assign roles and edit the roles / users / modules catalog (update on Roles)
+  canManageRoles: boolean;
+};
+
+// A missing panel module grants nothing, so a catalog without them locks the panel
+export function panelAccess(model: AuthModel, modules: Module[], userId: number): PanelAccess {
+  const { can } = createAccessChecker(model, modules, userId);
+  return {
+    canView: can(PANEL_MODULES.permissions, "read"),
+    canEditPermissions: can(PANEL_MODULES.permissions, "update"),
+    canManageRoles: can(PANEL_MODULES.roles, "update"),
+  };
+}
+
+// Somebody may change permissions and somebody may manage roles; between them they can repair anything else
+export function hasPanelAdmins(model: AuthModel, modules: Module[], users: User[]) {
+  const rights = users.map((u) => panelAccess(model, modules, u.id));
+  return rights.some((r) => r.canEditPermissions) && rights.some((r) => r.canManageRoles);
+}
+
+// A change (role deleted, grant removed, role unassigned, ...) that takes the last of those rights away.
+// Only the backend could undo it, so callers ask before going ahead.
+export const locksOutPanel = (before: AuthModel, after: AuthModel, modules: Module[], users: User[]) =>
+  hasPanelAdmins(before, modules, users) && !hasPanelAdmins(after, modules, users);
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { Permission } from "../api/types";
+import { allowedFields, conflictOf, editableButHidden, effectiveAccess, isAllowed, wouldCreateCycle, type AuthModel } from "./permissions";
+
+// Manager inherits from Employee; Auditor denies what the others allow
+const roles = [
+  { id: 1, name: "Manager", parentIds: [2] },
+  { id: 2, name: "Employee" },
+  { id: 3, name: "Auditor" },
+];
+const perm = (roleId: number, patch: Partial<Permission>): Permission => ({ roleId, moduleId: 1, actions: [], visibleFields: [], editableFields: [], ...patch });
+const model = (permissions: Permission[], roleIds: number[]): AuthModel => ({
+  roles,
+  permissions,
+  userRoles: roleIds.map((roleId) => ({ userId: 1, roleId })),
+});
+
+describe("effectiveAccess", () => {
+  it("unions what every held role grants and names the granting roles", () => {
+    const access = effectiveAccess(
+      model([perm(1, { actions: ["update"], visibleFields: ["notes"] }), perm(2, { actions: ["read", "update"], visibleFields: ["amount"] })], [1, 2]),
+      1,
+      1
+    );
+
+    expect(access.actions.read.map((g) => g.role.name)).toEqual(["Employee"]);
+    expect(access.actions.update.map((g) => g.role.name)).toEqual(["Manager", "Employee"]);
+    expect(access.actions.delete).toEqual([]);
+    expect(Object.keys(access.visible).sort()).toEqual(["amount", "notes"]);
+  });
+
+  it("grants what the held role's ancestors grant, marked as inherited", () => {
+    const access = effectiveAccess(model([perm(2, { actions: ["read"], visibleFields: ["amount"] }), perm(1, { actions: ["update"] })], [1]), 1, 1);
+
+    expect(access.actions.read).toMatchObject([{ role: { name: "Employee" }, via: { name: "Manager" }, inherited: true }]);
+    expect(access.actions.update).toMatchObject([{ role: { name: "Manager" }, inherited: false }]);
+    expect(Object.keys(access.visible)).toEqual(["amount"]);
+  });
+
+  it("prefers a direct grant over the same role reached through inheritance", () => {
+    const access = effectiveAccess(model([perm(2, { actions: ["read"] })], [1, 2]), 1, 1);
+    expect(access.actions.read).toMatchObject([{ role: { name: "Employee" }, inherited: false }]);
+  });
+
+  it("ignores roles the user does not hold and permissions on other modules", () => {
+    const access = effectiveAccess(model([perm(1, { actions: ["read"] }), perm(3, { moduleId: 2, actions: ["update"] })], [3]), 1, 1);
+    expect(access.actions.read).toEqual([]);
+    expect(access.actions.update).toEqual([]);
+  });
+
+  it("lets a deny from any held role override allows from the others", () => {
+    const access = effectiveAccess(
+      model([perm(1, { actions: ["read", "update"], visibleFields: ["amount", "notes"], editableFields: ["notes"] }), perm(3, { deniedActions: ["update"], deniedVisibleFields: ["notes"] })], [1, 3]),
+      1,
+      1
+    );
+
+    expect(isAllowed(access, "actions", "read")).toBe(true);
+    expect(isAllowed(access, "actions", "update")).toBe(false);
+    expect(allowedFields(access, "visible")).toEqual(["amount"]);
+    expect(editableButHidden(access)).toEqual(["notes"]);
+    expect(conflictOf(access, "actions", "update")).toMatchObject({ allowedBy: [{ role: { name: "Manager" } }], deniedBy: [{ role: { name: "Auditor" } }] });
+    expect(conflictOf(access, "actions", "read")).toBeNull();
+  });
+
+  it("applies denies inherited from a parent role", () => {
+    const access = effectiveAccess(model([perm(1, { actions: ["delete"] }), perm(2, { deniedActions: ["delete"] })], [1]), 1, 1);
+    expect(isAllowed(access, "actions", "delete")).toBe(false);
+  });
+
+  it("treats field names like constructor as plain data", () => {
+    const access = effectiveAccess(model([perm(1, { visibleFields: ["constructor"], actions: ["toString"] })], [1]), 1, 1);
+    expect(allowedFields(access, "visible")).toEqual(["constructor"]);
+    expect(isAllowed(access, "visible", "toString")).toBe(false);
+    expect(isAllowed(access, "actions", "toString")).toBe(false);
+  });
+
+  it("flags fields that are editable but not visible", () => {
+    const access = effectiveAccess(model([perm(1, { visibleFields: ["amount"], editableFields: ["amount", "notes"] })], [1]), 1, 1);
+    expect(editableButHidden(access)).toEqual(["notes"]);
+  });
+});
+
+describe("wouldCreateCycle", () => {
+  it("refuses a parent that already inherits from the role", () => {
+    expect(wouldCreateCycle(2, 1, roles)).toBe(true);
+    expect(wouldCreateCycle(1, 1, roles)).toBe(true);
+    expect(wouldCreateCycle(3, 1, roles)).toBe(false);
+  });
+});
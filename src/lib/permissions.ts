@@ -0,0 +1,167 @@
+import { ACTIONS, type Action, type Permission, type Role, type UserRole } from "../api/types";
+import { t } from "./i18n";
+
+// Pure effective-rights logic shared by the matrix and the simulator.
+// A user's rights on a module are the union of what each of their roles grants,
+// including everything those roles inherit from their parent roles, minus anything
+// one of those roles explicitly denies (deny overrides allow).
+
+export type AuthModel = {
+  roles: Role[];
+  permissions: Permission[];
+  userRoles: UserRole[];
+};
+
+// One role + the Permission record that grants (or denies) something.
+// inherited: the Permission belongs to an ancestor of `via`, the role actually held.
+export type Grant = { role: Role; permission: Permission; inherited: boolean; via: Role };
+
+type Rights = {
+  // action -> grants that allow it
+  actions: Record<Action, Grant[]>;
+  // field -> grants that make it visible / editable
+  visible: Record<string, Grant[]>;
+  editable: Record<string, Grant[]>;
+};
+
+export type RightKind = keyof Rights;
+
+// What the roles allow, and separately what they deny. Use isAllowed / allowedFields to resolve.
+export type ModuleAccess = Rights & { denied: Rights };
+
+export const permKey = (roleId: number, moduleId: number) => `${roleId}-${moduleId}`;
+
+// Map roleId-moduleId => permission
+export function indexPermissions(permissions: Permission[]) {
+  const m = new Map<string, Permission>();
+  permissions.forEach((p) => m.set(permKey(p.roleId, p.moduleId), p));
+  return m;
+}
+
+export function roleIdsOfUser(userRoles: UserRole[], userId: number) {
+  return userRoles.filter((ur) => ur.userId === userId).map((ur) => ur.roleId);
+}
+
+// All ancestors of a role (parents, grandparents, ...); safe against cycles in bad data
+export function roleAncestors(roleId: number, roleById: Map<number, Role>): number[] {
+  const seen = new Set<number>([roleId]);
+  const out: number[] = [];
+  const queue = [...(roleById.get(roleId)?.parentIds ?? [])];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (seen.has(id) || !roleById.has(id)) continue;
+    seen.add(id);
+    out.push(id);
+    queue.push(...(roleById.get(id)!.parentIds ?? []));
+  }
+  return out;
+}
+
+// Would making parentId a parent of roleId create an inheritance cycle?
+export function wouldCreateCycle(roleId: number, parentId: number, roles: Role[]) {
+  if (roleId === parentId) return true;
+  return roleAncestors(parentId, new Map(roles.map((r) => [r.id, r]))).includes(roleId);
+}
+
+// Precomputed lookups so per-cell checks don't rescan userRoles / roles / permissions
+export type AccessIndex = {
+  permMap: Map<string, Permission>;
+  rolesByUser: Map<number, number[]>;
+  roleById: Map<number, Role>;
+  ancestorsByRole: Map<number, number[]>;
+};
+
+export function buildAccessIndex(model: AuthModel): AccessIndex {
+  const rolesByUser = new Map<number, number[]>();
+  model.userRoles.forEach((ur) => {
+    const list = rolesByUser.get(ur.userId);
+    if (list) list.push(ur.roleId);
+    else rolesByUser.set(ur.userId, [ur.roleId]);
+  });
+  const roleById = new Map(model.roles.map((r) => [r.id, r]));
+  return {
+    permMap: indexPermissions(model.permissions),
+    rolesByUser,
+    roleById,
+    ancestorsByRole: new Map(model.roles.map((r) => [r.id, roleAncestors(r.id, roleById)])),
+  };
+}
+
+// Prototype-less maps: names come from the data, and "constructor" or "toString" must not resolve to Object's
+const grantMap = <K extends string>(keys: readonly K[] = []): Record<K, Grant[]> =>
+  Object.assign(Object.create(null), Object.fromEntries(keys.map((k) => [k, [] as Grant[]])));
+
+const emptyRights = (): Rights => ({
+  actions: grantMap(ACTIONS),
+  visible: grantMap(),
+  editable: grantMap(),
+});
+
+const collect = (rights: Rights, grant: Grant, actions: string[] = [], visible: string[] = [], editable: string[] = []) => {
+  actions.forEach((a) => {
+    if ((ACTIONS as readonly string[]).includes(a)) rights.actions[a as Action].push(grant);
+  });
+  visible.forEach((f) => (rights.visible[f] ||= []).push(grant));
+  editable.forEach((f) => (rights.editable[f] ||= []).push(grant));
+};
+
+// Rights on a module granted by a set of held roles and their ancestors
+export function accessForRoles(roleIds: number[], moduleId: number, index: AccessIndex): ModuleAccess {
+  const access: ModuleAccess = { ...emptyRights(), denied: emptyRights() };
+
+  // roleId -> held role it is reached through; direct grants win over inherited ones
+  const sources = new Map<number, number>();
+  roleIds.forEach((rid) => sources.set(rid, rid));
+  roleIds.forEach((rid) =>
+    (index.ancestorsByRole.get(rid) ?? []).forEach((aid) => {
+      if (!sources.has(aid)) sources.set(aid, rid);
+    })
+  );
+
+  sources.forEach((viaId, rid) => {
+    const permission = index.permMap.get(permKey(rid, moduleId));
+    const role = index.roleById.get(rid);
+    const via = index.roleById.get(viaId);
+    if (!permission || !role || !via) return;
+    const grant: Grant = { role, permission, inherited: rid !== viaId, via };
+
+    collect(access, grant, permission.actions, permission.visibleFields, permission.editableFields);
+    collect(access.denied, grant, permission.deniedActions, permission.deniedVisibleFields, permission.deniedEditableFields);
+  });
+
+  return access;
+}
+
+export function effectiveAccess(model: AuthModel, userId: number, moduleId: number, index = buildAccessIndex(model)): ModuleAccess {
+  return accessForRoles(index.rolesByUser.get(userId) ?? [], moduleId, index);
+}
+
+// Granted only through inheritance (no direct grant among them)
+export const onlyInherited = (grants: Grant[] | undefined) => !!grants && grants.length > 0 && grants.every((g) => g.inherited);
+
+const grantsOf = (rights: Rights, kind: RightKind, name: string): Grant[] => (rights[kind] as Record<string, Grant[]>)[name] ?? [];
+
+// Deny overrides allow: granted by at least one role and denied by none
+export function isAllowed(access: ModuleAccess, kind: RightKind, name: string) {
+  return grantsOf(access, kind, name).length > 0 && grantsOf(access.denied, kind, name).length === 0;
+}
+
+export function allowedFields(access: ModuleAccess, kind: "visible" | "editable") {
+  return Object.keys(access[kind]).filter((f) => isAllowed(access, kind, f));
+}
+
+// Granted by some role but denied by another (or the same) one; null when there is no conflict
+export function conflictOf(access: ModuleAccess, kind: RightKind, name: string) {
+  const allowedBy = grantsOf(access, kind, name);
+  const deniedBy = grantsOf(access.denied, kind, name);
+  return allowedBy.length && deniedBy.length ? { allowedBy, deniedBy } : null;
+}
+
+// "Denied by Auditor, overriding Manager"
+export const describeConflict = (c: { allowedBy: Grant[]; deniedBy: Grant[] }) =>
+  t("rights.conflict", { denied: c.deniedBy.map((g) => g.role.name).join(", "), allowed: c.allowedBy.map((g) => g.role.name).join(", ") });
+
+// Fields a user may edit but cannot see — usually a configuration mistake
+export function editableButHidden(access: ModuleAccess) {
+  return allowedFields(access, "editable").filter((f) => !isAllowed(access, "visible", f));
+}
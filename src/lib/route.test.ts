@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { defaultRoute, formatRoute, parseRoute, type Route } from "./route";
+
+const filters = { search: "ali", roleId: 2, moduleId: null, action: "read" as const, page: 1, pageSize: 50 };
+
+describe("routes", () => {
+  it.each<Route>([
+    defaultRoute,
+    { page: "tab", tab: "assign", filters, editor: null },
+    { page: "tab", tab: "permissions", filters, editor: { kind: "fields", userId: 12, moduleId: 3 } },
+    { page: "tab", tab: "permissions", filters, editor: { kind: "action", userId: 12, moduleId: 3, action: "delete" } },
+    { page: "tab", tab: "rolePermissions", filters, editor: { kind: "roleFields", roleId: 2, moduleId: 3 } },
+    { page: "user", userId: 12 },
+    { page: "role", roleId: 3 },
+  ])("round-trips %j through the hash", (route) => {
+    expect(parseRoute(formatRoute(route))).toEqual(route);
+  });
+
+  it("keeps links short by leaving defaults out", () => {
+    expect(formatRoute(defaultRoute)).toBe("#/permissions");
+    const third = { search: "", roleId: null, moduleId: null, action: null, page: 2, pageSize: 50 };
+    expect(formatRoute({ page: "tab", tab: "rolePermissions", filters: third, editor: null })).toBe("#/role-permissions?page=3");
+  });
+
+  it("falls back to the permissions tab and drops malformed parameters", () => {
+    expect(parseRoute("#/nowhere?page=x&action=fly&editor=action&user=1&editorModule=2")).toEqual(defaultRoute);
+    expect(parseRoute("#/users/abc")).toEqual(defaultRoute);
+  });
+});
@@ -0,0 +1,105 @@
+import { ACTIONS, type Action } from "../api/types";
+import { defaultMatrixFilters, type MatrixFilters } from "./matrixFilters";
+
+// Hash-based routes ("#/permissions?q=ali&page=2"), so links and reloads work on any static host.
+//
+//   #/<tab>?q=&role=&module=&action=&page=&size=   tab with matrix filters
+//     &editor=fields&user=12&editorModule=3         ... with the fields editor open
+//     &editor=action&user=12&editorModule=3&editorAction=read   ... with the action editor open
+//     &editor=roleFields&editorRole=2&editorModule=3   ... with a role's fields editor open
+//   #/users/12, #/roles/3                           detail pages
+
+export const TABS = ["permissions", "rolePermissions", "assign", "catalog", "simulator", "transfer", "history", "review", "dashboard"] as const;
+export type Tab = (typeof TABS)[number];
+
+const TAB_PATHS: Record<Tab, string> = {
+  permissions: "permissions",
+  rolePermissions: "role-permissions",
+  assign: "assign",
+  catalog: "catalog",
+  simulator: "simulator",
+  transfer: "transfer",
+  history: "history",
+  review: "access-review",
+  dashboard: "dashboard",
+};
+
+export type Editor =
+  | { kind: "fields"; userId: number; moduleId: number }
+  | { kind: "action"; userId: number; moduleId: number; action: Action }
+  | { kind: "roleFields"; roleId: number; moduleId: number };
+
+export type Route =
+  | { page: "tab"; tab: Tab; filters: MatrixFilters; editor: Editor | null }
+  | { page: "user"; userId: number }
+  | { page: "role"; roleId: number };
+
+export const defaultRoute: Route = { page: "tab", tab: "permissions", filters: defaultMatrixFilters, editor: null };
+
+const int = (v: string | null) => (v !== null && /^\d+$/.test(v) ? Number(v) : null);
+
+function parseFilters(q: URLSearchParams): MatrixFilters {
+  const action = q.get("action");
+  return {
+    search: q.get("q") ?? "",
+    roleId: int(q.get("role")),
+    moduleId: int(q.get("module")),
+    action: (ACTIONS as readonly string[]).includes(action ?? "") ? (action as Action) : null,
+    // 1-based in the URL
+    page: Math.max(0, (int(q.get("page")) ?? 1) - 1),
+    pageSize: int(q.get("size")) || defaultMatrixFilters.pageSize,
+  };
+}
+
+function parseEditor(q: URLSearchParams): Editor | null {
+  const moduleId = int(q.get("editorModule"));
+  if (moduleId === null) return null;
+  if (q.get("editor") === "roleFields") {
+    const roleId = int(q.get("editorRole"));
+    return roleId === null ? null : { kind: "roleFields", roleId, moduleId };
+  }
+  const userId = int(q.get("user"));
+  if (userId === null) return null;
+  if (q.get("editor") === "fields") return { kind: "fields", userId, moduleId };
+  const action = q.get("editorAction");
+  if (q.get("editor") === "action" && (ACTIONS as readonly string[]).includes(action ?? "")) return { kind: "action", userId, moduleId, action: action as Action };
+  return null;
+}
+
+// Unknown paths fall back to the permissions tab
+export function parseRoute(hash: string): Route {
+  const [path, query = ""] = hash.replace(/^#\/?/, "").split("?");
+  const q = new URLSearchParams(query);
+  const [first, second] = path.split("/");
+
+  const id = int(second ?? null);
+  if (first === "users" && id !== null) return { page: "user", userId: id };
+  if (first === "roles" && id !== null) return { page: "role", roleId: id };
+
+  const tab = TABS.find((t) => TAB_PATHS[t] === first) ?? "permissions";
+  return { page: "tab", tab, filters: parseFilters(q), editor: parseEditor(q) };
+}
+
+export function formatRoute(route: Route): string {
+  if (route.page === "user") return `#/users/${route.userId}`;
+  if (route.page === "role") return `#/roles/${route.roleId}`;
+
+  const { filters: f, editor } = route;
+  const q = new URLSearchParams();
+  // only what differs from the defaults, to keep links short
+  if (f.search) q.set("q", f.search);
+  if (f.roleId !== null) q.set("role", String(f.roleId));
+  if (f.moduleId !== null) q.set("module", String(f.moduleId));
+  if (f.action) q.set("action", f.action);
+  if (f.page > 0) q.set("page", String(f.page + 1));
+  if (f.pageSize !== defaultMatrixFilters.pageSize) q.set("size", String(f.pageSize));
+  if (editor) {
+    q.set("editor", editor.kind);
+    if (editor.kind === "roleFields") q.set("editorRole", String(editor.roleId));
+    else q.set("user", String(editor.userId));
+    q.set("editorModule", String(editor.moduleId));
+    if (editor.kind === "action") q.set("editorAction", editor.action);
+  }
+  const query = q.toString();
+  return `#/${TAB_PATHS[route.tab]}${query ? `?${query}` : ""}`;
+}
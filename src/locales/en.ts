@@ -0,0 +1,408 @@
+// English messages; the keys are the source of truth for the other catalogs
+export const en = {
+  // shared
+  "action.read": "read",
+  "action.create": "create",
+  "action.update": "update",
+  "action.delete": "delete",
+  "common.none": "None",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.save": "Save",
+  "common.delete": "Delete",
+  "common.rename": "Rename",
+  "common.edit": "Edit",
+  "common.add": "Add",
+  "common.refresh": "Refresh",
+  "common.loading": "Loading...",
+  "common.retry": "Retry",
+  "common.dismiss": "Dismiss",
+  "common.clearFilters": "Clear filters",
+  "common.allRoles": "All roles",
+  "common.allModules": "All modules",
+  "common.allUsers": "All users",
+  "common.inheritedLegend": "↑ = inherited from a parent role",
+  "common.apiError": "API error ({method} {endpoint} -> {status})",
+  "common.network": "network",
+  "common.language": "Language",
+
+  // App / login
+  "app.title": "Permissions Panel",
+  "app.signedInAs": "Signed in as",
+  "app.signOut": "Sign out",
+  "app.sessionExpired": "Your session expired. Sign in again to continue.",
+  "login.title": "Sign in",
+  "login.username": "User name",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.submitting": "Signing in...",
+  "login.mockHint": "Mock backend: sign in as any user (e.g. Alice) with password \"demo\".",
+
+  // components
+  "cell.saving": "Saving…",
+  "cell.saveFailed": "Save failed",
+  "pagination.range": "{from}–{to} of {total}",
+  "pagination.prev": "Prev",
+  "pagination.next": "Next",
+  "pagination.page": "Page {page} / {pages}",
+  "pagination.perPage": "{size} / page",
+  "bulk.progress": "{title}: {done}/{total}",
+  "bulk.finished": " done, {failed} failed",
+  "filters.searchUser": "Search user…",
+  "filters.allActions": "All actions",
+  "filters.can": "Can {action}",
+
+  // change kinds (draft review, history)
+  "op.create": "create",
+  "op.update": "update",
+  "op.delete": "delete",
+  "change.roleAssignment": "Role assignment",
+  "change.permission": "Permission",
+  "change.assigned": "assigned",
+  "change.actions": "actions",
+  "change.queryFields": "query fields",
+  "change.updateFields": "update fields",
+  "change.denies": "denies",
+  "change.query": "query {field}",
+  "change.update": "update {field}",
+
+  // draft review
+  "draft.pending": "Draft: {count} pending change(s)",
+  "draft.discardAll": "Discard all",
+  "draft.applyAll": "Apply all",
+  "draft.applying": "Applying...",
+  "draft.change": "Change",
+  "draft.target": "Target",
+  "draft.before": "Before",
+  "draft.after": "After",
+
+  // assign roles
+  "assign.confirmAssign": "Assign {roles} role(s) for {users} user(s)?",
+  "assign.confirmRevoke": "Revoke {roles} role(s) for {users} user(s)?",
+  "assign.confirmClone": "Give {users} user(s) exactly the roles of {source}? Roles {source} does not have will be removed from them.",
+  "assign.selected": "{users} user(s), {roles} role(s) selected",
+  "assign.assignSelected": "Assign selected roles",
+  "assign.revokeSelected": "Revoke selected roles",
+  "assign.cloneRolesOf": "Clone roles of",
+  "assign.selectUser": "Select user…",
+  "assign.ontoSelected": "onto selected users",
+  "assign.clearSelection": "Clear selection",
+  "assign.selectPage": "Select all users on this page",
+  "assign.user": "User",
+  "assign.selectRole": "Select role for bulk actions",
+
+  // permission matrices and detail pages
+  "rights.allowedQueryFields": "Allowed query fields",
+  "rights.allowedUpdateFields": "Allowed update fields",
+  "rights.deniedQueryFields": "Denied query fields (override other roles)",
+  "rights.deniedUpdateFields": "Denied update fields (override other roles)",
+  "rights.inheritedFrom": "Inherited from {roles}",
+  "rights.inheritedVia": "{role} via {via}",
+  "rights.conflict": "Denied by {denied}, overriding {allowed}",
+  "rights.deniedByRule": "⚠ {count} denied by rule",
+  "rights.editFields": "Edit fields",
+  "rights.editFieldsTitle": "Edit fields: {role} / {module}",
+  "rights.conflictLegend": "= granted but denied by another role (hover for details)",
+  "rights.struckThrough": "struck through",
+  "rights.roles": "Roles: {roles}",
+  "rights.noUsersMatch": "No users match the filters.",
+  "rights.clickToChange": "Click to change which role provides this action",
+  "rights.user": "User",
+  "rights.role": "Role",
+  "rights.module": "Module",
+  "rights.actions": "Actions",
+  "rights.queryFields": "Query fields",
+  "rights.updateFields": "Update fields",
+  "rights.denied": "Denied",
+  "rolePerms.confirmGrant": "Grant \"{action}\" on {modules} module(s) for {roles} role(s)?",
+  "rolePerms.confirmRevoke": "Revoke \"{action}\" on {modules} module(s) for {roles} role(s)?",
+  "rolePerms.confirmCopy": "Copy every permission (including deny rules) of {from} onto {to}? Existing permissions of {to} on the same modules are overwritten.",
+  "rolePerms.selected": "{roles} role(s), {modules} module(s) selected",
+  "rolePerms.grant": "Grant",
+  "rolePerms.revoke": "Revoke",
+  "rolePerms.copyFrom": "Copy permissions from",
+  "rolePerms.pickRole": "role…",
+  "rolePerms.to": "to",
+  "rolePerms.copy": "Copy",
+  "rolePerms.selectAll": "Select all roles",
+  "rolePerms.selectModule": "Select module for bulk actions",
+  "rolePerms.selectRole": "Select {role} for bulk actions",
+  "rolePerms.inherits": "Inherits: {roles}",
+  "rolePerms.deny": "Deny:",
+  "rolePerms.denyTitle": "Deny {action} even if another role grants it",
+  "rolePerms.deniedByInherited": "Denied by inherited {roles}",
+  "rolePerms.inherited": "↑ Inherited:",
+  "rolePerms.deniedLabel": "Denied:",
+  "userDetail.roles": "Roles:",
+  "userDetail.notFound": "User #{id} does not exist.",
+  "userDetail.back": "Back to the user permissions",
+  "roleDetail.notFound": "Role #{id} does not exist.",
+  "roleDetail.back": "Back to the role permissions",
+  "roleDetail.inheritsFrom": "Inherits from:",
+  "roleDetail.inheritedBy": "Inherited by:",
+  "roleDetail.members": "Members:",
+
+  // simulator
+  "simulator.title": "What can this user do?",
+  "simulator.permissionRef": "{role} (permission #{id})",
+  "simulator.permissionRefInherited": "{role} (permission #{id}, inherited via {via})",
+  "simulator.new": "new",
+  "simulator.allowed": "Allowed",
+  "simulator.denied": "Denied",
+  "simulator.grantedBy": "Granted by {grants}",
+  "simulator.deniedBy": "Denied by {grants}",
+  "simulator.denyOverrides": " — deny overrides the grant",
+  "simulator.allFields": "All fields",
+  "simulator.pickModule": "Pick a module to filter fields",
+  "simulator.action": "Action",
+  "simulator.decision": "Decision",
+  "simulator.why": "Why",
+  "simulator.noRoleGrants": "No role grants this action",
+  "simulator.field": "Field",
+  "simulator.visible": "Visible",
+  "simulator.editable": "Editable",
+  "simulator.editableHidden": "⚠ Editable but not visible",
+
+  // history
+  "history.title": "History",
+  "history.userFilterTitle": "Assignments of the user and permission changes of the roles they hold",
+  "history.from": "From",
+  "history.to": "To",
+  "history.loadFailed": "Could not load the audit log: {error}",
+  "history.recordFailed": "The change was saved, but its audit entry could not be recorded: {error}",
+  "history.when": "When",
+  "history.who": "Who",
+  "history.change": "Change",
+  "history.details": "Details",
+  "history.beforeAfter": "Before / after",
+  "history.revert": "Revert",
+  "history.reverting": "Reverting...",
+  "history.nothingToRevert": "Nothing to revert: the record already matches its state before this change.",
+  "history.confirmRevert": "Revert this change to {target}?",
+  "history.revertFailed": "The revert failed:\n\n{error}",
+  "history.noChanges": "No changes recorded yet.",
+  "history.noMatches": "No changes recorded for these filters.",
+  "history.roleRemoved": "role removed",
+  "history.roleAssigned": "role assigned",
+  "history.deniedActions": "denied actions",
+  "history.deniedQueryFields": "denied query fields",
+  "history.deniedUpdateFields": "denied update fields",
+
+  // import / export
+  "transfer.notJson": "The file is not valid JSON.",
+  "transfer.wrongFormat": "Not an {format} document.",
+  "transfer.wrongVersion": "Unsupported version {version} (expected {expected}).",
+  "transfer.notArray": "\"{key}\" must be an array.",
+  "transfer.missingName": "{where}: missing name",
+  "transfer.roleParentsType": "Role \"{name}\": parents must be a list of strings",
+  "transfer.duplicateRole": "Duplicate role \"{name}\"",
+  "transfer.moduleFieldsType": "Module \"{name}\": fields must be a list of strings",
+  "transfer.duplicateModule": "Duplicate module \"{name}\"",
+  "transfer.unknownParent": "Role \"{name}\": unknown parent role \"{parent}\"",
+  "transfer.cycle": "Role \"{name}\": inheritance would form a cycle",
+  "transfer.roleAndModuleRequired": "{where}: role and module are required",
+  "transfer.unknownRole": "{where}: unknown role \"{role}\"",
+  "transfer.unknownModule": "{where}: unknown module \"{module}\"",
+  "transfer.duplicatePair": "{where}: duplicate role/module pair",
+  "transfer.listsType": "{where}: actions and fields must be lists of strings",
+  "transfer.unknownAction": "{where}: action \"{action}\" is not one of {actions}",
+  "transfer.unknownField": "{where}: unknown field \"{field}\"",
+  "transfer.userAndRoleRequired": "{where}: user and role are required",
+  "transfer.unknownUser": "{where}: unknown user \"{user}\" (users are not imported)",
+  "transfer.itemRole": "Role {name}",
+  "transfer.itemModule": "Module {name}",
+  "transfer.itemParents": "Parents of role {name}",
+  "transfer.itemPermission": "Permission {role} / {module}",
+  "transfer.itemAssignment": "Assignment {user} → {role}",
+  "transfer.reload": "Reload roles and modules",
+  "transfer.roleNotCreated": "role was not created",
+  "transfer.roleOrModuleNotCreated": "role or module was not created",
+  "transfer.userOrRoleNotFound": "user or role not found",
+  "transfer.toApply": "({changes} to apply, {unchanged} unchanged)",
+  "transfer.export": "Export",
+  "transfer.exportHelp": "JSON contains roles, modules (with fields), permissions and role assignments, referenced by name. CSV flattens the users × modules × actions matrix.",
+  "transfer.exportJson": "Export JSON",
+  "transfer.exportCsv": "Export CSV",
+  "transfer.import": "Import",
+  "transfer.importHelp": "Import merges the document into the current data: missing roles, modules, permissions and assignments are created and differing ones updated. Nothing is deleted and users are not created.",
+  "transfer.paste": "…or paste an exported JSON document",
+  "transfer.preview": "Preview (dry run)",
+  "transfer.apply": "Apply {count} change(s)",
+  "transfer.issues": "{count} problem(s) must be fixed before importing:",
+  "transfer.roles": "Roles",
+  "transfer.modules": "Modules",
+  "transfer.permissions": "Permissions",
+  "transfer.roleAssignments": "Role assignments",
+  "transfer.inherits": "{name} (inherits {parents})",
+  "transfer.noFields": "no fields",
+  "transfer.noActions": "no actions",
+  "transfer.denies": ", denies {actions}",
+  "transfer.failed": "{count} item(s) failed:",
+  "transfer.opUnchanged": "unchanged",
+
+  // catalog
+  "catalog.operationFailed": "The operation failed:\n\n{error}",
+  "catalog.confirmDeleteRole": "Delete role \"{name}\"?\n\nThis will also delete {permissions} permission record(s) and {assignments} user assignment(s).",
+  "catalog.confirmDeleteRoleChildren": "Delete role \"{name}\"?\n\nThis will also delete {permissions} permission record(s) and {assignments} user assignment(s), and {children} will stop inheriting from it.",
+  "catalog.confirmDeleteUser": "Delete user \"{name}\"?\n\nThis will also delete {assignments} role assignment(s).",
+  "catalog.confirmDeleteModule": "Delete module \"{name}\"?\n\nThis will also delete {permissions} permission record(s).",
+  "catalog.panelModuleLocked": "\"{name}\" controls access to this panel, so it can't be renamed or deleted.",
+  "catalog.inheritsFrom": "Inherits from: {roles}",
+  "catalog.nothing": "nothing",
+  "catalog.name": "Name",
+  "catalog.create": "Create",
+  "catalog.roles": "Roles",
+  "catalog.users": "Users",
+  "catalog.modules": "Modules",
+  "catalog.newModule": "New module",
+  "catalog.editModule": "Edit module",
+  "catalog.noFields": "No fields",
+  "catalog.parentsTitle": "{role} inherits from",
+  "catalog.parentsHelp": "The role gets every permission of the roles checked here, and of their own parents.",
+  "catalog.cycleTitle": "Would create an inheritance cycle",
+  "catalog.cycle": " (would create a cycle)",
+  "catalog.fields": "Fields",
+  "catalog.remove": "Remove",
+  "catalog.newField": "New field",
+
+  // main panel
+  "matrix.refreshFailed": "Could not refresh data: {error}",
+  "matrix.confirmReset": "Reset the mock backend to its initial fixtures?",
+  "matrix.confirmLeaveDraft": "Leave draft mode and discard {count} pending change(s)?",
+  "matrix.applyErrors": "{count} change(s) could not be applied: {errors}",
+  "matrix.applied": "{count} change(s) applied.",
+  "matrix.saveFailed": "{label} could not be saved: {error}",
+  "matrix.permissionLabel": "Permission {role} / {module}",
+  "matrix.roleForUser": "Role {role} for {user}",
+  "matrix.itemRoleForUser": "{role} for {user}",
+  "matrix.importing": "importing",
+  "matrix.reverting": "reverting",
+  "matrix.bulkNotAllowed": "Your roles don't allow {verb}: it needs \"update\" on both the {permissions} and {roles} modules.",
+  "matrix.bulkDraftPending": "Apply or discard the pending draft changes before {verb}.",
+  "matrix.noRoles": "User has no roles assigned. Assign a role first, or edit the role in the Role Permissions tab.",
+  "matrix.noRolesFields": "Assign a role to the user first to edit fields for that role/module.",
+  "matrix.jobAssign": "Assign {roles} role(s) for {users} user(s)",
+  "matrix.jobRevoke": "Revoke {roles} role(s) for {users} user(s)",
+  "matrix.jobClone": "Clone roles of {source} onto {users} user(s)",
+  "matrix.jobGrant": "Grant {action} on {modules} module(s) for {roles} role(s)",
+  "matrix.jobRevokeAction": "Revoke {action} on {modules} module(s) for {roles} role(s)",
+  "matrix.jobCopy": "Copy permissions from {from} to {to}",
+  "matrix.loading": "Loading permissions...",
+  "matrix.loadFailed": "Could not load data: {error}",
+  "matrix.noAccess": "You don't have access to this panel. It requires \"read\" on the {module} module; ask an administrator for a role that grants it.",
+  "matrix.panelModulesMissing": "Nobody can use this panel yet: the backend has no module named {modules}. Create the missing module(s), and a role granting read and update on them, directly on the backend (see \"Authentication\" in the README).",
+  "matrix.confirmLockout": "This change takes away the last \"update\" right on {permissions} or {roles}. Nobody could then fix it from this panel, only on the backend.\n\nContinue anyway?",
+  "matrix.title": "Authorization Management",
+  "matrix.mockBackend": "mock backend",
+  "matrix.resetData": "Reset data",
+  "matrix.refreshing": "Refreshing...",
+  "matrix.readOnly": "Read-only: your roles don't allow changing permissions or role assignments.",
+  "matrix.draftMode": "Draft mode (stage permission and role changes, then review and apply them together)",
+  "matrix.permissionsReadOnly": "Permissions are read-only for you.",
+  "matrix.catalogDraftPending": "Apply or discard the pending draft changes before editing roles, users or modules.",
+  "matrix.assignTitle": "Assign Roles to Users",
+  "matrix.selectRolesFor": "Select roles to grant action:",
+  "matrix.apply": "Apply",
+  "matrix.fieldsHelp": "Q = allowed query field, U = allowed update field. Each column edits that role's own permission.",
+  "matrix.field": "Field",
+  "matrix.inheritedUnion": "Inherited (union)",
+  "matrix.queryShort": "Q",
+  "matrix.updateShort": "U",
+  "matrix.deniedSuffix": "{right} (denied)",
+  "matrix.savedTo": "Changes will be saved to: {roles}",
+  "matrix.noChanges": "No changes yet.",
+  "tab.permissions": "Permissions",
+  "tab.rolePermissions": "Role Permissions",
+  "tab.assign": "Assign Roles",
+  "tab.catalog": "Roles, Users & Modules",
+  "tab.simulator": "What can this user do?",
+  "tab.transfer": "Import / Export",
+  "tab.history": "History",
+  "tab.review": "Access Review",
+  "tab.dashboard": "Dashboard",
+
+  // accessibility
+  "a11y.cell": "{row} – {module} – {action}",
+  "a11y.userCell": "{row} – {module} – {action} ({state})",
+  "a11y.allowed": "allowed",
+  "a11y.notAllowed": "not allowed",
+  "a11y.fieldRight": "{role} – {field} – {right}",
+  "a11y.gridHelp": "Use the arrow keys to move between cells, Space to change one.",
+  "a11y.query": "query",
+  "a11y.update": "update",
+  "a11y.denyCell": "{row} – {module} – deny {action}",
+  "a11y.assignCell": "{user} – {role}",
+
+  // live sync
+  "sync.changedMessage": "changed by someone else since it was loaded",
+  "sync.deletedMessage": "deleted by someone else since it was loaded",
+  "sync.conflictTitle": "Changed by someone else",
+  "sync.conflictBody": "{label} was changed by another admin after you loaded it, so your change was not saved. The matrix now shows their version.",
+  "sync.deletedBody": "{label} was deleted by another admin after you loaded it, so your change was not saved.",
+  "sync.list": "List",
+  "sync.theirs": "Their version",
+  "sync.yours": "Your change",
+  "sync.keepTheirs": "Keep theirs",
+  "sync.applyMine": "Apply mine anyway",
+  "sync.live": "Live · synced {time}",
+  "sync.paused": "Live updates paused while the draft is open",
+
+  // access review
+  "review.title": "Access review",
+  "review.help": "Start a campaign to snapshot every right users effectively hold, approve or flag each one, then sign the campaign off and download the report.",
+  "review.campaign": "Campaign",
+  "review.noCampaigns": "No campaigns yet",
+  "review.signedOffShort": "signed off",
+  "review.openShort": "open",
+  "review.namePlaceholder": "New campaign name",
+  "review.start": "Start campaign",
+  "review.saveFailed": "Saving the review failed: {error}",
+  "review.defaultName": "Access review {date}",
+  "review.confirmStart": "Start \"{name}\" with {items} rights of {users} users?",
+  "review.flagComment": "Why is this right flagged? (optional)",
+  "review.confirmSignOff": "Sign off \"{name}\"? Decisions can't be changed afterwards.",
+  "review.progress": "{approved} approved, {flagged} flagged, {pending} pending of {total}",
+  "review.createdBy": "Started by {user} on {at}",
+  "review.signedOff": "Signed off by {user} on {at}",
+  "review.signOff": "Sign off",
+  "review.signOffBlocked": "Every right needs a decision before the campaign can be signed off",
+  "review.downloadReport": "Download report",
+  "review.user": "User",
+  "review.userOption": "{n}/{count} {user} ({pending} pending)",
+  "review.pendingOnly": "Pending only",
+  "review.approveRemaining": "Approve remaining for {user}",
+  "review.module": "Module",
+  "review.right": "Right",
+  "review.grantedBy": "Granted by",
+  "review.decision": "Decision",
+  "review.approved": "Approved",
+  "review.flagged": "Flagged",
+  "review.decidedBy": "by {user}, {at}",
+  "review.pending": "Pending",
+  "review.undo": "Undo",
+  "review.approve": "Approve",
+  "review.flag": "Flag",
+  "review.approveItem": "Approve {right} on {module} for {user}",
+  "review.flagItem": "Flag {right} on {module} for {user}",
+  "review.userDone": "Nothing left to review for this user.",
+  "review.empty": "This campaign has no rights to review.",
+  "review.readOnly": "You can follow campaigns and download their reports. Starting them, deciding and signing off needs \"update\" on the {module} module.",
+  "review.ownRights": "These are your own rights: another reviewer has to decide them.",
+
+  // dashboard
+  "dashboard.title": "Permissions dashboard",
+  "dashboard.nothingFound": "Nothing found.",
+  "dashboard.allModules": "all modules",
+  "dashboard.sensitiveDeletes": "Delete on sensitive modules",
+  "dashboard.sensitiveHelp": "Users who may delete on: {modules}",
+  "dashboard.through": "through {roles}",
+  "dashboard.unusedRoles": "Roles with no users",
+  "dashboard.unusedHelp": "Nobody holds these roles directly.",
+  "dashboard.inheritedBy": "still inherited by {roles}",
+  "dashboard.unreadModules": "Modules nobody can read",
+  "dashboard.unreadHelp": "No user has read on these modules.",
+  "dashboard.duplicateRoles": "Duplicate roles",
+  "dashboard.duplicateHelp": "Roles granting exactly the same rights.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,407 @@
+import type { MessageKey } from "./en";
+
+export const es: Record<MessageKey, string> = {
+  // shared
+  "action.read": "consultar",
+  "action.create": "crear",
+  "action.update": "modificar",
+  "action.delete": "eliminar",
+  "common.none": "Ninguno",
+  "common.cancel": "Cancelar",
+  "common.close": "Cerrar",
+  "common.save": "Guardar",
+  "common.delete": "Eliminar",
+  "common.rename": "Renombrar",
+  "common.edit": "Editar",
+  "common.add": "Añadir",
+  "common.refresh": "Actualizar",
+  "common.loading": "Cargando...",
+  "common.retry": "Reintentar",
+  "common.dismiss": "Descartar",
+  "common.clearFilters": "Quitar filtros",
+  "common.allRoles": "Todos los roles",
+  "common.allModules": "Todos los módulos",
+  "common.allUsers": "Todos los usuarios",
+  "common.inheritedLegend": "↑ = heredado de un rol padre",
+  "common.apiError": "Error en la API ({method} {endpoint} -> {status})",
+  "common.network": "red",
+  "common.language": "Idioma",
+
+  // App / login
+  "app.title": "Panel de Permisos",
+  "app.signedInAs": "Sesión iniciada como",
+  "app.signOut": "Cerrar sesión",
+  "app.sessionExpired": "Tu sesión ha caducado. Vuelve a iniciar sesión para continuar.",
+  "login.title": "Iniciar sesión",
+  "login.username": "Usuario",
+  "login.password": "Contraseña",
+  "login.submit": "Entrar",
+  "login.submitting": "Entrando...",
+  "login.mockHint": "Backend simulado: entra con cualquier usuario (p. ej. Alice) y la contraseña \"demo\".",
+
+  // components
+  "cell.saving": "Guardando…",
+  "cell.saveFailed": "Error al guardar",
+  "pagination.range": "{from}–{to} de {total}",
+  "pagination.prev": "Anterior",
+  "pagination.next": "Siguiente",
+  "pagination.page": "Página {page} / {pages}",
+  "pagination.perPage": "{size} / página",
+  "bulk.progress": "{title}: {done}/{total}",
+  "bulk.finished": " terminado, {failed} con error",
+  "filters.searchUser": "Buscar usuario…",
+  "filters.allActions": "Todas las acciones",
+  "filters.can": "Puede {action}",
+
+  // change kinds (draft review, history)
+  "op.create": "alta",
+  "op.update": "cambio",
+  "op.delete": "baja",
+  "change.roleAssignment": "Asignación de rol",
+  "change.permission": "Permiso",
+  "change.assigned": "asignado",
+  "change.actions": "acciones",
+  "change.queryFields": "campos de consulta",
+  "change.updateFields": "campos de modificación",
+  "change.denies": "deniega",
+  "change.query": "consultar {field}",
+  "change.update": "modificar {field}",
+
+  // draft review
+  "draft.pending": "Borrador: {count} cambio(s) pendiente(s)",
+  "draft.discardAll": "Descartar todo",
+  "draft.applyAll": "Aplicar todo",
+  "draft.applying": "Aplicando...",
+  "draft.change": "Cambio",
+  "draft.target": "Objetivo",
+  "draft.before": "Antes",
+  "draft.after": "Después",
+
+  // assign roles
+  "assign.confirmAssign": "¿Asignar {roles} rol(es) a {users} usuario(s)?",
+  "assign.confirmRevoke": "¿Retirar {roles} rol(es) a {users} usuario(s)?",
+  "assign.confirmClone": "¿Dar a {users} usuario(s) exactamente los roles de {source}? Se les quitarán los roles que {source} no tiene.",
+  "assign.selected": "{users} usuario(s), {roles} rol(es) seleccionados",
+  "assign.assignSelected": "Asignar roles seleccionados",
+  "assign.revokeSelected": "Retirar roles seleccionados",
+  "assign.cloneRolesOf": "Clonar roles de",
+  "assign.selectUser": "Elegir usuario…",
+  "assign.ontoSelected": "en los usuarios seleccionados",
+  "assign.clearSelection": "Quitar selección",
+  "assign.selectPage": "Seleccionar todos los usuarios de esta página",
+  "assign.user": "Usuario",
+  "assign.selectRole": "Seleccionar rol para acciones en bloque",
+
+  // permission matrices and detail pages
+  "rights.allowedQueryFields": "Campos de consulta permitidos",
+  "rights.allowedUpdateFields": "Campos de modificación permitidos",
+  "rights.deniedQueryFields": "Campos de consulta denegados (prevalecen sobre otros roles)",
+  "rights.deniedUpdateFields": "Campos de modificación denegados (prevalecen sobre otros roles)",
+  "rights.inheritedFrom": "Heredado de {roles}",
+  "rights.inheritedVia": "{role} vía {via}",
+  "rights.conflict": "Denegado por {denied}, prevalece sobre {allowed}",
+  "rights.deniedByRule": "⚠ {count} denegado(s) por regla",
+  "rights.editFields": "Editar campos",
+  "rights.editFieldsTitle": "Editar campos: {role} / {module}",
+  "rights.conflictLegend": "= concedido pero denegado por otro rol (pasa el ratón para ver detalles)",
+  "rights.struckThrough": "tachado",
+  "rights.roles": "Roles: {roles}",
+  "rights.noUsersMatch": "Ningún usuario coincide con los filtros.",
+  "rights.clickToChange": "Haz clic para cambiar qué rol concede esta acción",
+  "rights.user": "Usuario",
+  "rights.role": "Rol",
+  "rights.module": "Módulo",
+  "rights.actions": "Acciones",
+  "rights.queryFields": "Campos de consulta",
+  "rights.updateFields": "Campos de modificación",
+  "rights.denied": "Denegado",
+  "rolePerms.confirmGrant": "¿Conceder \"{action}\" en {modules} módulo(s) a {roles} rol(es)?",
+  "rolePerms.confirmRevoke": "¿Retirar \"{action}\" en {modules} módulo(s) a {roles} rol(es)?",
+  "rolePerms.confirmCopy": "¿Copiar todos los permisos (incluidas las reglas de denegación) de {from} a {to}? Se sobrescriben los permisos de {to} en los mismos módulos.",
+  "rolePerms.selected": "{roles} rol(es), {modules} módulo(s) seleccionados",
+  "rolePerms.grant": "Conceder",
+  "rolePerms.revoke": "Retirar",
+  "rolePerms.copyFrom": "Copiar permisos de",
+  "rolePerms.pickRole": "rol…",
+  "rolePerms.to": "a",
+  "rolePerms.copy": "Copiar",
+  "rolePerms.selectAll": "Seleccionar todos los roles",
+  "rolePerms.selectModule": "Seleccionar módulo para acciones en bloque",
+  "rolePerms.selectRole": "Seleccionar {role} para acciones en bloque",
+  "rolePerms.inherits": "Hereda: {roles}",
+  "rolePerms.deny": "Denegar:",
+  "rolePerms.denyTitle": "Denegar {action} aunque otro rol lo conceda",
+  "rolePerms.deniedByInherited": "Denegado por el rol heredado {roles}",
+  "rolePerms.inherited": "↑ Heredado:",
+  "rolePerms.deniedLabel": "Denegado:",
+  "userDetail.roles": "Roles:",
+  "userDetail.notFound": "El usuario #{id} no existe.",
+  "userDetail.back": "Volver a los permisos por usuario",
+  "roleDetail.notFound": "El rol #{id} no existe.",
+  "roleDetail.back": "Volver a los permisos por rol",
+  "roleDetail.inheritsFrom": "Hereda de:",
+  "roleDetail.inheritedBy": "Heredado por:",
+  "roleDetail.members": "Miembros:",
+
+  // simulator
+  "simulator.title": "¿Qué puede hacer este usuario?",
+  "simulator.permissionRef": "{role} (permiso #{id})",
+  "simulator.permissionRefInherited": "{role} (permiso #{id}, heredado vía {via})",
+  "simulator.new": "nuevo",
+  "simulator.allowed": "Permitido",
+  "simulator.denied": "Denegado",
+  "simulator.grantedBy": "Concedido por {grants}",
+  "simulator.deniedBy": "Denegado por {grants}",
+  "simulator.denyOverrides": " — la denegación prevalece sobre la concesión",
+  "simulator.allFields": "Todos los campos",
+  "simulator.pickModule": "Elige un módulo para filtrar campos",
+  "simulator.action": "Acción",
+  "simulator.decision": "Decisión",
+  "simulator.why": "Motivo",
+  "simulator.noRoleGrants": "Ningún rol concede esta acción",
+  "simulator.field": "Campo",
+  "simulator.visible": "Visible",
+  "simulator.editable": "Editable",
+  "simulator.editableHidden": "⚠ Editable pero no visible",
+
+  // history
+  "history.title": "Historial",
+  "history.userFilterTitle": "Asignaciones del usuario y cambios de permisos de los roles que tiene",
+  "history.from": "Desde",
+  "history.to": "Hasta",
+  "history.loadFailed": "No se pudo cargar el registro de auditoría: {error}",
+  "history.recordFailed": "El cambio se guardó, pero no se pudo registrar su entrada de auditoría: {error}",
+  "history.when": "Cuándo",
+  "history.who": "Quién",
+  "history.change": "Cambio",
+  "history.details": "Detalles",
+  "history.beforeAfter": "Antes / después",
+  "history.revert": "Revertir",
+  "history.reverting": "Revirtiendo...",
+  "history.nothingToRevert": "Nada que revertir: el registro ya coincide con su estado anterior a este cambio.",
+  "history.confirmRevert": "¿Revertir este cambio en {target}?",
+  "history.revertFailed": "No se pudo revertir:\n\n{error}",
+  "history.noChanges": "Todavía no hay cambios registrados.",
+  "history.noMatches": "No hay cambios registrados para estos filtros.",
+  "history.roleRemoved": "rol retirado",
+  "history.roleAssigned": "rol asignado",
+  "history.deniedActions": "acciones denegadas",
+  "history.deniedQueryFields": "campos de consulta denegados",
+  "history.deniedUpdateFields": "campos de modificación denegados",
+
+  // import / export
+  "transfer.notJson": "El archivo no es un JSON válido.",
+  "transfer.wrongFormat": "No es un documento {format}.",
+  "transfer.wrongVersion": "Versión {version} no admitida (se esperaba {expected}).",
+  "transfer.notArray": "\"{key}\" debe ser una lista.",
+  "transfer.missingName": "{where}: falta el nombre",
+  "transfer.roleParentsType": "Rol \"{name}\": los padres deben ser una lista de textos",
+  "transfer.duplicateRole": "Rol duplicado \"{name}\"",
+  "transfer.moduleFieldsType": "Módulo \"{name}\": los campos deben ser una lista de textos",
+  "transfer.duplicateModule": "Módulo duplicado \"{name}\"",
+  "transfer.unknownParent": "Rol \"{name}\": rol padre desconocido \"{parent}\"",
+  "transfer.cycle": "Rol \"{name}\": la herencia formaría un ciclo",
+  "transfer.roleAndModuleRequired": "{where}: el rol y el módulo son obligatorios",
+  "transfer.unknownRole": "{where}: rol desconocido \"{role}\"",
+  "transfer.unknownModule": "{where}: módulo desconocido \"{module}\"",
+  "transfer.duplicatePair": "{where}: par rol/módulo duplicado",
+  "transfer.listsType": "{where}: las acciones y los campos deben ser listas de textos",
+  "transfer.unknownAction": "{where}: la acción \"{action}\" no es una de {actions}",
+  "transfer.unknownField": "{where}: campo desconocido \"{field}\"",
+  "transfer.userAndRoleRequired": "{where}: el usuario y el rol son obligatorios",
+  "transfer.unknownUser": "{where}: usuario desconocido \"{user}\" (los usuarios no se importan)",
+  "transfer.itemRole": "Rol {name}",
+  "transfer.itemModule": "Módulo {name}",
+  "transfer.itemParents": "Padres del rol {name}",
+  "transfer.itemPermission": "Permiso {role} / {module}",
+  "transfer.itemAssignment": "Asignación {user} → {role}",
+  "transfer.reload": "Recargar roles y módulos",
+  "transfer.roleNotCreated": "no se creó el rol",
+  "transfer.roleOrModuleNotCreated": "no se creó el rol o el módulo",
+  "transfer.userOrRoleNotFound": "no se encontró el usuario o el rol",
+  "transfer.toApply": "({changes} por aplicar, {unchanged} sin cambios)",
+  "transfer.export": "Exportar",
+  "transfer.exportHelp": "El JSON contiene roles, módulos (con sus campos), permisos y asignaciones de roles, referenciados por nombre. El CSV aplana la matriz usuarios × módulos × acciones.",
+  "transfer.exportJson": "Exportar JSON",
+  "transfer.exportCsv": "Exportar CSV",
+  "transfer.import": "Importar",
+  "transfer.importHelp": "La importación fusiona el documento con los datos actuales: se crean los roles, módulos, permisos y asignaciones que faltan y se actualizan los que difieren. No se elimina nada y no se crean usuarios.",
+  "transfer.paste": "…o pega un documento JSON exportado",
+  "transfer.preview": "Vista previa (simulación)",
+  "transfer.apply": "Aplicar {count} cambio(s)",
+  "transfer.issues": "Hay que corregir {count} problema(s) antes de importar:",
+  "transfer.roles": "Roles",
+  "transfer.modules": "Módulos",
+  "transfer.permissions": "Permisos",
+  "transfer.roleAssignments": "Asignaciones de roles",
+  "transfer.inherits": "{name} (hereda de {parents})",
+  "transfer.noFields": "sin campos",
+  "transfer.noActions": "sin acciones",
+  "transfer.denies": ", deniega {actions}",
+  "transfer.failed": "{count} elemento(s) con error:",
+  "transfer.opUnchanged": "sin cambios",
+
+  // catalog
+  "catalog.operationFailed": "La operación falló:\n\n{error}",
+  "catalog.confirmDeleteRole": "¿Eliminar el rol \"{name}\"?\n\nTambién se eliminarán {permissions} registro(s) de permisos y {assignments} asignación(es) de usuarios.",
+  "catalog.confirmDeleteRoleChildren": "¿Eliminar el rol \"{name}\"?\n\nTambién se eliminarán {permissions} registro(s) de permisos y {assignments} asignación(es) de usuarios, y {children} dejarán de heredar de él.",
+  "catalog.confirmDeleteUser": "¿Eliminar el usuario \"{name}\"?\n\nTambién se eliminarán {assignments} asignación(es) de roles.",
+  "catalog.confirmDeleteModule": "¿Eliminar el módulo \"{name}\"?\n\nTambién se eliminarán {permissions} registro(s) de permisos.",
+  "catalog.panelModuleLocked": "\"{name}\" controla el acceso a este panel, así que no se puede renombrar ni eliminar.",
+  "catalog.inheritsFrom": "Hereda de: {roles}",
+  "catalog.nothing": "ninguno",
+  "catalog.name": "Nombre",
+  "catalog.create": "Crear",
+  "catalog.roles": "Roles",
+  "catalog.users": "Usuarios",
+  "catalog.modules": "Módulos",
+  "catalog.newModule": "Nuevo módulo",
+  "catalog.editModule": "Editar módulo",
+  "catalog.noFields": "Sin campos",
+  "catalog.parentsTitle": "{role} hereda de",
+  "catalog.parentsHelp": "El rol obtiene todos los permisos de los roles marcados aquí y de sus propios padres.",
+  "catalog.cycleTitle": "Crearía un ciclo de herencia",
+  "catalog.cycle": " (crearía un ciclo)",
+  "catalog.fields": "Campos",
+  "catalog.remove": "Quitar",
+  "catalog.newField": "Nuevo campo",
+
+  // main panel
+  "matrix.refreshFailed": "No se pudieron actualizar los datos: {error}",
+  "matrix.confirmReset": "¿Restablecer el backend simulado a sus datos iniciales?",
+  "matrix.confirmLeaveDraft": "¿Salir del modo borrador y descartar {count} cambio(s) pendiente(s)?",
+  "matrix.applyErrors": "No se pudieron aplicar {count} cambio(s): {errors}",
+  "matrix.applied": "{count} cambio(s) aplicado(s).",
+  "matrix.saveFailed": "No se pudo guardar {label}: {error}",
+  "matrix.permissionLabel": "Permiso {role} / {module}",
+  "matrix.roleForUser": "Rol {role} para {user}",
+  "matrix.itemRoleForUser": "{role} para {user}",
+  "matrix.importing": "importar",
+  "matrix.reverting": "revertir",
+  "matrix.bulkNotAllowed": "Tus roles no permiten {verb}: hace falta \"update\" en los módulos {permissions} y {roles}.",
+  "matrix.bulkDraftPending": "Aplica o descarta los cambios pendientes del borrador antes de {verb}.",
+  "matrix.noRoles": "El usuario no tiene roles asignados. Asigna un rol primero o edita el rol en la pestaña Permisos por rol.",
+  "matrix.noRolesFields": "Asigna un rol al usuario antes de editar los campos de ese rol/módulo.",
+  "matrix.jobAssign": "Asignar {roles} rol(es) a {users} usuario(s)",
+  "matrix.jobRevoke": "Retirar {roles} rol(es) a {users} usuario(s)",
+  "matrix.jobClone": "Clonar los roles de {source} en {users} usuario(s)",
+  "matrix.jobGrant": "Conceder {action} en {modules} módulo(s) a {roles} rol(es)",
+  "matrix.jobRevokeAction": "Retirar {action} en {modules} módulo(s) a {roles} rol(es)",
+  "matrix.jobCopy": "Copiar permisos de {from} a {to}",
+  "matrix.loading": "Cargando permisos...",
+  "matrix.loadFailed": "No se pudieron cargar los datos: {error}",
+  "matrix.noAccess": "No tienes acceso a este panel. Requiere \"read\" en el módulo {module}; pide a un administrador un rol que lo conceda.",
+  "matrix.panelModulesMissing": "Nadie puede usar este panel todavía: el backend no tiene ningún módulo llamado {modules}. Crea los que falten, junto con un rol que conceda lectura y actualización sobre ellos, directamente en el backend (ver \"Authentication\" en el README).",
+  "matrix.confirmLockout": "Este cambio quita el último derecho \"update\" sobre {permissions} o {roles}. Nadie podría corregirlo desde este panel, solo en el backend.\n\n¿Continuar de todos modos?",
+  "matrix.title": "Gestión de autorizaciones",
+  "matrix.mockBackend": "backend simulado",
+  "matrix.resetData": "Restablecer datos",
+  "matrix.refreshing": "Actualizando...",
+  "matrix.readOnly": "Solo lectura: tus roles no permiten cambiar permisos ni asignaciones de roles.",
+  "matrix.draftMode": "Modo borrador (prepara cambios de permisos y roles, revísalos y aplícalos juntos)",
+  "matrix.permissionsReadOnly": "Los permisos son de solo lectura para ti.",
+  "matrix.catalogDraftPending": "Aplica o descarta los cambios pendientes del borrador antes de editar roles, usuarios o módulos.",
+  "matrix.assignTitle": "Asignar roles a usuarios",
+  "matrix.selectRolesFor": "Elige los roles que conceden la acción:",
+  "matrix.apply": "Aplicar",
+  "matrix.fieldsHelp": "C = campo de consulta permitido, M = campo de modificación permitido. Cada columna edita el permiso propio de ese rol.",
+  "matrix.field": "Campo",
+  "matrix.inheritedUnion": "Heredado (unión)",
+  "matrix.queryShort": "C",
+  "matrix.updateShort": "M",
+  "matrix.deniedSuffix": "{right} (denegado)",
+  "matrix.savedTo": "Los cambios se guardarán en: {roles}",
+  "matrix.noChanges": "Todavía no hay cambios.",
+  "tab.permissions": "Permisos",
+  "tab.rolePermissions": "Permisos por rol",
+  "tab.assign": "Asignar roles",
+  "tab.catalog": "Roles, usuarios y módulos",
+  "tab.simulator": "¿Qué puede hacer este usuario?",
+  "tab.transfer": "Importar / Exportar",
+  "tab.history": "Historial",
+  "tab.review": "Revisión de accesos",
+  "tab.dashboard": "Panel de control",
+
+  // accessibility
+  "a11y.cell": "{row} – {module} – {action}",
+  "a11y.userCell": "{row} – {module} – {action} ({state})",
+  "a11y.allowed": "permitido",
+  "a11y.notAllowed": "no permitido",
+  "a11y.fieldRight": "{role} – {field} – {right}",
+  "a11y.gridHelp": "Usa las flechas para moverte entre celdas y Espacio para cambiar una.",
+  "a11y.query": "consultar",
+  "a11y.update": "modificar",
+  "a11y.denyCell": "{row} – {module} – denegar {action}",
+  "a11y.assignCell": "{user} – {role}",
+
+  // live sync
+  "sync.changedMessage": "modificado por otra persona desde que se cargó",
+  "sync.deletedMessage": "eliminado por otra persona desde que se cargó",
+  "sync.conflictTitle": "Modificado por otra persona",
+  "sync.conflictBody": "Otro administrador modificó {label} después de que lo cargaras, así que tu cambio no se guardó. La matriz muestra ahora su versión.",
+  "sync.deletedBody": "Otro administrador eliminó {label} después de que lo cargaras, así que tu cambio no se guardó.",
+  "sync.list": "Lista",
+  "sync.theirs": "Su versión",
+  "sync.yours": "Tu cambio",
+  "sync.keepTheirs": "Mantener la suya",
+  "sync.applyMine": "Aplicar la mía de todos modos",
+  "sync.live": "En vivo · sincronizado {time}",
+  "sync.paused": "Actualizaciones en vivo en pausa mientras el borrador está abierto",
+
+  // access review
+  "review.title": "Revisión de accesos",
+  "review.help": "Inicia una campaña para capturar todos los derechos efectivos de los usuarios, aprueba o marca cada uno y después firma la campaña y descarga el informe.",
+  "review.campaign": "Campaña",
+  "review.noCampaigns": "Aún no hay campañas",
+  "review.signedOffShort": "firmada",
+  "review.openShort": "abierta",
+  "review.namePlaceholder": "Nombre de la nueva campaña",
+  "review.start": "Iniciar campaña",
+  "review.saveFailed": "No se pudo guardar la revisión: {error}",
+  "review.defaultName": "Revisión de accesos {date}",
+  "review.confirmStart": "¿Iniciar \"{name}\" con {items} derechos de {users} usuarios?",
+  "review.flagComment": "¿Por qué se marca este derecho? (opcional)",
+  "review.confirmSignOff": "¿Firmar \"{name}\"? Después no se podrán cambiar las decisiones.",
+  "review.progress": "{approved} aprobados, {flagged} marcados, {pending} pendientes de {total}",
+  "review.createdBy": "Iniciada por {user} el {at}",
+  "review.signedOff": "Firmada por {user} el {at}",
+  "review.signOff": "Firmar",
+  "review.signOffBlocked": "Todos los derechos necesitan una decisión antes de firmar la campaña",
+  "review.downloadReport": "Descargar informe",
+  "review.user": "Usuario",
+  "review.userOption": "{n}/{count} {user} ({pending} pendientes)",
+  "review.pendingOnly": "Solo pendientes",
+  "review.approveRemaining": "Aprobar el resto de {user}",
+  "review.module": "Módulo",
+  "review.right": "Derecho",
+  "review.grantedBy": "Concedido por",
+  "review.decision": "Decisión",
+  "review.approved": "Aprobado",
+  "review.flagged": "Marcado",
+  "review.decidedBy": "por {user}, {at}",
+  "review.pending": "Pendiente",
+  "review.undo": "Deshacer",
+  "review.approve": "Aprobar",
+  "review.flag": "Marcar",
+  "review.approveItem": "Aprobar {right} en {module} para {user}",
+  "review.flagItem": "Marcar {right} en {module} para {user}",
+  "review.userDone": "No queda nada por revisar para este usuario.",
+  "review.empty": "Esta campaña no tiene derechos que revisar.",
+  "review.readOnly": "Puedes seguir las campañas y descargar sus informes. Para iniciarlas, decidir y firmarlas necesitas \"update\" en el módulo {module}.",
+  "review.ownRights": "Son tus propios derechos: otro revisor tiene que decidirlos.",
+
+  // dashboard
+  "dashboard.title": "Panel de permisos",
+  "dashboard.nothingFound": "No se encontró nada.",
+  "dashboard.allModules": "todos los módulos",
+  "dashboard.sensitiveDeletes": "Eliminar en módulos sensibles",
+  "dashboard.sensitiveHelp": "Usuarios que pueden eliminar en: {modules}",
+  "dashboard.through": "mediante {roles}",
+  "dashboard.unusedRoles": "Roles sin usuarios",
+  "dashboard.unusedHelp": "Nadie tiene estos roles directamente.",
+  "dashboard.inheritedBy": "aún heredado por {roles}",
+  "dashboard.unreadModules": "Módulos que nadie puede leer",
+  "dashboard.unreadHelp": "Ningún usuario tiene lectura en estos módulos.",
+  "dashboard.duplicateRoles": "Roles duplicados",
+  "dashboard.duplicateHelp": "Roles que conceden exactamente los mismos derechos.",
+};
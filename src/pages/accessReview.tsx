@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from "react";
+import { api, describeError } from "../api/client";
+import type { AccessReview as Review, ReviewDecision, ReviewItem, User } from "../api/types";
+import { download } from "../components/download";
+import { Link } from "../components/route";
+import { colors } from "../components/theme";
+import { canDecide, canSignOff, decideItems, describeItemRoles, newReview, reviewItems, reviewProgress, reviewReportCsv } from "../lib/accessReview";
+import { actionLabel, formatDateTime, t } from "../lib/i18n";
+import type { Snapshot } from "../lib/modelTransfer";
+import { PANEL_MODULES } from "../lib/panelAccess";
+
+type Props = Snapshot & {
+  // the signed-in user, recorded on campaigns, decisions and the sign-off
+  reviewer: User;
+  // may start campaigns, decide and sign off (update on the Roles panel module); otherwise read-only
+  canReview: boolean;
+};
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)", marginBottom: 16 };
+const inputStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: `1px solid ${colors.controlBorder}` };
+const cell: React.CSSProperties = { padding: 8, textAlign: "left", verticalAlign: "top" };
+const decisionColor = { approved: colors.success, flagged: colors.danger };
+
+const rightLabel = (item: ReviewItem) =>
+  item.right === "action" ? actionLabel(item.name) : t(item.right === "query" ? "change.query" : "change.update", { field: item.name });
+
+// Access recertification: start a campaign, walk through each user's effective rights approving
+// or flagging them, then sign it off and download the report
+export default function AccessReview({ reviewer, canReview, users, roles, modules, permissions, userRoles }: Props) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  // position in the walk through the campaign's users
+  const [userIndex, setUserIndex] = useState(0);
+  const [pendingOnly, setPendingOnly] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const list = await api.accessReviews.list();
+      setReviews(list);
+      setSelectedId((id) => id ?? list[list.length - 1]?.id ?? null);
+      setError(null);
+    } catch (e) {
+      setError(describeError(e));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const review = reviews.find((r) => r.id === selectedId) ?? null;
+  const replace = (saved: Review) => setReviews((list) => list.map((r) => (r.id === saved.id ? saved : r)));
+
+  // every write starts from the server copy, so concurrent reviewers keep each other's decisions
+  const save = async (change: (current: Review) => Review | null) => {
+    if (!review?.id) return;
+    setSaving(true);
+    try {
+      const current = await api.accessReviews.get(review.id);
+      const next = change(current);
+      if (next) replace((await api.accessReviews.update(review.id, next)) ?? next);
+      else replace(current);
+      setError(null);
+    } catch (e) {
+      setError(t("review.saveFailed", { error: describeError(e) }));
+    }
+    setSaving(false);
+  };
+
+  const start = async () => {
+    if (!canReview) return;
+    const campaign = name.trim() || t("review.defaultName", { date: new Date().toISOString().slice(0, 10) });
+    const items = reviewItems({ roles, permissions, userRoles }, users, modules);
+    if (!confirm(t("review.confirmStart", { name: campaign, items: items.length, users: users.length }))) return;
+    setSaving(true);
+    try {
+      const created = await api.accessReviews.create(newReview(campaign, reviewer.name, items));
+      if (created) {
+        setReviews((list) => [...list, created]);
+        setSelectedId(created.id ?? null);
+      } else await load();
+      setName("");
+      setUserIndex(0);
+      setError(null);
+    } catch (e) {
+      setError(t("review.saveFailed", { error: describeError(e) }));
+    }
+    setSaving(false);
+  };
+
+  const decide = (items: ReviewItem[], decision: ReviewDecision | null) => {
+    if (!canReview) return;
+    let comment: string | undefined;
+    if (decision === "flagged") {
+      const answer = prompt(t("review.flagComment"));
+      if (answer === null) return;
+      comment = answer.trim() || undefined;
+    }
+    return save((current) => (current.signedOffAt ? null : decideItems(current, items.map((i) => i.key), decision, reviewer, comment)));
+  };
+
+  const signOff = () => {
+    if (!canReview || !review || !confirm(t("review.confirmSignOff", { name: review.name }))) return;
+    return save((current) => (canSignOff(current) ? { ...current, signedOffAt: new Date().toISOString(), signedOffBy: reviewer.name } : null));
+  };
+
+  const downloadReport = () => review && download(`access-review-${review.name.replace(/\W+/g, "-")}.csv`, reviewReportCsv(review), "text/csv");
+
+  // the campaign's users in snapshot order, with what is left to review for each
+  const reviewUsers = review
+    ? Array.from(new Map(review.items.map((i) => [i.userId, i.user])).entries()).map(([userId, user]) => {
+        const items = review.items.filter((i) => i.userId === userId);
+        return { userId, user, items, pending: items.filter((i) => !i.decision).length };
+      })
+    : [];
+  const current = reviewUsers[Math.min(userIndex, reviewUsers.length - 1)];
+  const shownItems = current ? current.items.filter((i) => !pendingOnly || !i.decision) : [];
+  const progress = review && reviewProgress(review);
+  const locked = !!review?.signedOffAt || saving || !canReview;
+  // what the reviewer may still decide for the current user (never their own rights)
+  const decidable = current ? current.items.filter((i) => !i.decision && canDecide(i, reviewer)) : [];
+
+  return (
+    <div style={panelStyle}>
+      <h3 style={{ margin: 0 }}>{t("review.title")}</h3>
+      <p style={{ fontSize: 13, color: colors.textMuted }}>{t("review.help")}</p>
+      {!canReview && <p style={{ fontSize: 13, color: colors.warning }}>{t("review.readOnly", { module: PANEL_MODULES.roles })}</p>}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 12, fontSize: 13 }}>
+        <label>
+          {t("review.campaign")}{" "}
+          <select
+            style={inputStyle}
+            value={selectedId ?? ""}
+            onChange={(e) => {
+              setSelectedId(e.target.value ? Number(e.target.value) : null);
+              setUserIndex(0);
+            }}
+          >
+            {!reviews.length && <option value="">{loading ? t("common.loading") : t("review.noCampaigns")}</option>}
+            {reviews.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name} · {r.signedOffAt ? t("review.signedOffShort") : t("review.openShort")}
+              </option>
+            ))}
+          </select>
+        </label>
+        <input style={inputStyle} placeholder={t("review.namePlaceholder")} aria-label={t("review.namePlaceholder")} value={name} onChange={(e) => setName(e.target.value)} />
+        <button onClick={start} disabled={saving || !canReview}>{t("review.start")}</button>
+        <button onClick={load} disabled={loading} style={{ marginLeft: "auto" }}>{loading ? t("common.loading") : t("common.refresh")}</button>
+      </div>
+
+      {error && <div style={{ color: colors.danger, marginBottom: 10 }}>{error}</div>}
+
+      {review && progress && (
+        <>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginBottom: 12, fontSize: 13 }} aria-live="polite">
+            <span>{t("review.progress", { approved: progress.approved, flagged: progress.flagged, pending: progress.pending, total: progress.total })}</span>
+            <span style={{ color: colors.textMuted }}>{t("review.createdBy", { user: review.createdBy, at: formatDateTime(review.createdAt) })}</span>
+            {review.signedOffAt ? (
+              <strong style={{ color: colors.success }}>{t("review.signedOff", { user: review.signedOffBy ?? "", at: formatDateTime(review.signedOffAt) })}</strong>
+            ) : (
+              <button onClick={signOff} disabled={locked || !canSignOff(review)} title={canSignOff(review) ? undefined : t("review.signOffBlocked")}>
+                {t("review.signOff")}
+              </button>
+            )}
+            <button onClick={downloadReport}>{t("review.downloadReport")}</button>
+          </div>
+
+          {current ? (
+            <>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 8, fontSize: 13 }}>
+                <button onClick={() => setUserIndex(Math.max(0, userIndex - 1))} disabled={userIndex === 0}>{t("pagination.prev")}</button>
+                <select style={inputStyle} value={userIndex} onChange={(e) => setUserIndex(Number(e.target.value))} aria-label={t("review.user")}>
+                  {reviewUsers.map((u, i) => (
+                    <option key={u.userId} value={i}>
+                      {t("review.userOption", { n: i + 1, count: reviewUsers.length, user: u.user, pending: u.pending })}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={() => setUserIndex(Math.min(reviewUsers.length - 1, userIndex + 1))} disabled={userIndex >= reviewUsers.length - 1}>{t("pagination.next")}</button>
+                <label style={{ marginLeft: 8 }}>
+                  <input type="checkbox" checked={pendingOnly} onChange={() => setPendingOnly(!pendingOnly)} /> {t("review.pendingOnly")}
+                </label>
+                <button
+                  onClick={() => decide(decidable, "approved")}
+                  disabled={locked || decidable.length === 0}
+                  style={{ marginLeft: "auto" }}
+                >
+                  {t("review.approveRemaining", { user: current.user })}
+                </button>
+              </div>
+
+              <h4 style={{ margin: "12px 0 6px" }}>
+                {users.some((u) => u.id === current.userId) ? <Link to={{ page: "user", userId: current.userId }}>{current.user}</Link> : current.user}
+              </h4>
+              {current.userId === reviewer.id && <div style={{ fontSize: 13, color: colors.warning, marginBottom: 6 }}>{t("review.ownRights")}</div>}
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                <thead>
+                  <tr style={{ background: colors.headerBg }}>
+                    <th style={cell}>{t("review.module")}</th>
+                    <th style={cell}>{t("review.right")}</th>
+                    <th style={cell}>{t("review.grantedBy")}</th>
+                    <th style={cell}>{t("review.decision")}</th>
+                    <th style={cell} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownItems.map((i) => (
+                    <tr key={i.key} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                      <td style={cell}>{i.module}</td>
+                      <td style={cell}>{rightLabel(i)}</td>
+                      <td style={cell}>{describeItemRoles(i)}</td>
+                      <td style={cell}>
+                        {i.decision ? (
+                          <>
+                            <span style={{ color: decisionColor[i.decision], fontWeight: 600 }}>{t(`review.${i.decision}`)}</span>
+                            <div style={{ fontSize: 12, color: colors.textMuted }}>{t("review.decidedBy", { user: i.reviewer ?? "", at: formatDateTime(i.decidedAt ?? "") })}</div>
+                            {i.comment && <div style={{ fontSize: 12 }}>{i.comment}</div>}
+                          </>
+                        ) : (
+                          <span style={{ color: colors.textMuted }}>{t("review.pending")}</span>
+                        )}
+                      </td>
+                      <td style={{ ...cell, textAlign: "right", whiteSpace: "nowrap" }}>
+                        {!canDecide(i, reviewer) ? null : i.decision ? (
+                          <button onClick={() => decide([i], null)} disabled={locked}>{t("review.undo")}</button>
+                        ) : (
+                          <>
+                            <button onClick={() => decide([i], "approved")} disabled={locked} aria-label={t("review.approveItem", { user: i.user, module: i.module, right: rightLabel(i) })}>
+                              {t("review.approve")}
+                            </button>{" "}
+                            <button onClick={() => decide([i], "flagged")} disabled={locked} aria-label={t("review.flagItem", { user: i.user, module: i.module, right: rightLabel(i) })}>
+                              {t("review.flag")}
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {shownItems.length === 0 && (
+                    <tr>
+                      <td colSpan={5} style={{ padding: 16, textAlign: "center", color: colors.textMuted }}>{t("review.userDone")}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </>
+          ) : (
+            <div style={{ color: colors.textMuted }}>{t("review.empty")}</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
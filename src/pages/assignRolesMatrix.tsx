@@ -0,0 +1,147 @@
+import React, { useId, useState } from "react";
+import CellStatusBadge from "../components/cellStatus";
+import { useGridNavigation } from "../components/gridNavigation";
+import { colors } from "../components/theme";
+import type { Role, User } from "../api/types";
+import { t } from "../lib/i18n";
+
+type Props = {
+  // current page of users
+  users: User[];
+  // every user, for the clone source picker
+  allUsers: User[];
+  roles: Role[];
+  hasRole: (userId: number, roleId: number) => boolean;
+  isChanged: (userId: number, roleId: number) => boolean;
+  statusOf: (userId: number, roleId: number) => "pending" | "error" | undefined;
+  onToggle: (userId: number, roleId: number) => void;
+  onBulkSetRoles: (userIds: number[], roleIds: number[], assigned: boolean) => void;
+  onCloneRoles: (sourceUserId: number, targetUserIds: number[]) => void;
+  // a bulk job is running
+  busy: boolean;
+};
+
+const stickyHeader: React.CSSProperties = { position: "sticky", top: 0, zIndex: 1, background: colors.headerBg };
+const bulkBar: React.CSSProperties = { display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", background: colors.selectedBg, padding: 10, borderRadius: 8, marginBottom: 10, fontSize: 13 };
+
+const toggleIn = (set: Set<number>, id: number) => {
+  const next = new Set(set);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+};
+
+// Users x roles assignment grid with row (user) and column (role) selection for bulk operations
+export default function AssignRolesMatrix({ users, allUsers, roles, hasRole, isChanged, statusOf, onToggle, onBulkSetRoles, onCloneRoles, busy }: Props) {
+  const [selectedUsers, setSelectedUsers] = useState<Set<number>>(new Set());
+  const [selectedRoles, setSelectedRoles] = useState<Set<number>>(new Set());
+  const [cloneSource, setCloneSource] = useState<number | null>(null);
+  const grid = useGridNavigation(users.length, roles.length);
+  const gridHelpId = useId();
+
+  const pageIds = users.map((u) => u.id);
+  const allPageSelected = pageIds.length > 0 && pageIds.every((id) => selectedUsers.has(id));
+  const userIds = Array.from(selectedUsers);
+  const roleIds = Array.from(selectedRoles);
+
+  const setRoles = (assigned: boolean) => {
+    const counts = { roles: roleIds.length, users: userIds.length };
+    if (!confirm(t(assigned ? "assign.confirmAssign" : "assign.confirmRevoke", counts))) return;
+    onBulkSetRoles(userIds, roleIds, assigned);
+  };
+
+  const cloneRoles = () => {
+    if (cloneSource === null) return;
+    const source = allUsers.find((u) => u.id === cloneSource)?.name;
+    if (!confirm(t("assign.confirmClone", { users: userIds.length, source: source ?? "" }))) return;
+    onCloneRoles(cloneSource, userIds);
+  };
+
+  return (
+    <>
+      {(userIds.length > 0 || roleIds.length > 0) && (
+        <div style={bulkBar}>
+          <strong>{t("assign.selected", { users: userIds.length, roles: roleIds.length })}</strong>
+          <button disabled={busy || !userIds.length || !roleIds.length} onClick={() => setRoles(true)}>{t("assign.assignSelected")}</button>
+          <button disabled={busy || !userIds.length || !roleIds.length} onClick={() => setRoles(false)}>{t("assign.revokeSelected")}</button>
+          <span style={{ marginLeft: 12 }}>{t("assign.cloneRolesOf")}</span>
+          <select value={cloneSource ?? ""} onChange={(e) => setCloneSource(e.target.value ? Number(e.target.value) : null)}>
+            <option value="">{t("assign.selectUser")}</option>
+            {allUsers.map((u) => <option key={u.id} value={u.id}>{u.name}</option>)}
+          </select>
+          <button disabled={busy || cloneSource === null || !userIds.length} onClick={cloneRoles}>{t("assign.ontoSelected")}</button>
+          <button
+            style={{ marginLeft: "auto" }}
+            onClick={() => {
+              setSelectedUsers(new Set());
+              setSelectedRoles(new Set());
+            }}
+          >
+            {t("assign.clearSelection")}
+          </button>
+        </div>
+      )}
+
+      <div style={{ overflow: "auto", maxHeight: "70vh" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }} {...grid.gridProps} aria-describedby={gridHelpId}>
+          <thead>
+            <tr>
+              <th style={{ ...stickyHeader, padding: 12, textAlign: "left" }}>
+                <input
+                  type="checkbox"
+                  checked={allPageSelected}
+                  onChange={() =>
+                    setSelectedUsers((prev) => {
+                      const next = new Set(prev);
+                      pageIds.forEach((id) => (allPageSelected ? next.delete(id) : next.add(id)));
+                      return next;
+                    })
+                  }
+                  title={t("assign.selectPage")}
+                />{" "}
+                {t("assign.user")}
+              </th>
+              {roles.map((r) => (
+                <th key={r.id} style={{ ...stickyHeader, padding: 12, textAlign: "center" }}>
+                  <label style={{ cursor: "pointer" }}>
+                    <input type="checkbox" checked={selectedRoles.has(r.id)} onChange={() => setSelectedRoles((s) => toggleIn(s, r.id))} title={t("assign.selectRole")} />{" "}
+                    {r.name}
+                  </label>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((u, row) => (
+              <tr key={u.id} style={{ borderTop: `1px solid ${colors.divider}`, background: selectedUsers.has(u.id) ? colors.selectedBg : undefined }}>
+                <td style={{ padding: 12, fontWeight: 600 }}>
+                  <label style={{ cursor: "pointer" }}>
+                    <input type="checkbox" checked={selectedUsers.has(u.id)} onChange={() => setSelectedUsers((s) => toggleIn(s, u.id))} />{" "}
+                    {u.name}
+                  </label>
+                </td>
+                {roles.map((r, col) => {
+                  const status = statusOf(u.id, r.id);
+                  return (
+                    <td key={r.id} style={{ padding: 12, textAlign: "center", background: isChanged(u.id, r.id) ? colors.changedBg : status === "error" ? colors.errorBg : undefined }}>
+                      <input
+                        type="checkbox"
+                        checked={hasRole(u.id, r.id)}
+                        disabled={status === "pending"}
+                        onChange={() => onToggle(u.id, r.id)}
+                        aria-label={t("a11y.assignCell", { user: u.name, role: r.name })}
+                        {...grid.cellProps(row, col)}
+                      />
+                      <CellStatusBadge status={status} />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div id={gridHelpId} style={{ fontSize: 12, color: colors.textMuted, padding: "8px 12px" }}>{t("a11y.gridHelp")}</div>
+    </>
+  );
+}
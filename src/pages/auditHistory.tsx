@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from "react";
+import { api, applyPendingChange, describeError } from "../api/client";
+import type { AuditEntry, Permission, UserRole } from "../api/types";
+import { confirmPanelAccess } from "../components/confirmPanelAccess";
+import Pagination from "../components/pagination";
+import { colors } from "../components/theme";
+import { auditDiff, defaultAuditFilters, filterAuditEntries, revertChange } from "../lib/audit";
+import { withChange } from "../lib/draft";
+import { formatDateTime, t } from "../lib/i18n";
+import type { Snapshot } from "../lib/modelTransfer";
+
+type Props = Snapshot & {
+  // why revert is unavailable (pending draft changes, missing rights); unset = allowed
+  revertBlockedReason?: string | null;
+  onChanged: () => Promise<void>;
+};
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)", marginBottom: 16 };
+const selectStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: `1px solid ${colors.controlBorder}` };
+const cell: React.CSSProperties = { padding: 8, textAlign: "left", verticalAlign: "top" };
+const opColor = { create: colors.success, update: colors.caution, delete: colors.danger };
+
+const idOrNull = (v: string) => (v ? Number(v) : null);
+
+// a permission's lists without the ids and bookkeeping, which mean nothing to a reader
+function strip(record: Permission | UserRole | null) {
+  if (!record) return null;
+  const { id: _id, roleId: _roleId, moduleId: _moduleId, version: _version, updatedAt: _updatedAt, ...rest } = record as Permission;
+  return rest;
+}
+
+// Audit trail of permission and role assignment changes, with filters and per-entry revert
+export default function AuditHistory({ revertBlockedReason, onChanged, ...snapshot }: Props) {
+  const { users, roles, modules, permissions, userRoles } = snapshot;
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState(defaultAuditFilters);
+  const [paging, setPaging] = useState({ page: 0, pageSize: 25 });
+  const [reverting, setReverting] = useState<number | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setEntries(await api.auditLog.list());
+      setError(null);
+    } catch (e) {
+      setError(describeError(e));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const name = (items: { id: number; name: string }[], id: number | undefined) => items.find((i) => i.id === id)?.name ?? `#${id}`;
+
+  const target = (e: AuditEntry) =>
+    e.entity === "userRole"
+      ? `${name(users, e.userId)} → ${name(roles, e.roleId)}`
+      : `${name(roles, e.roleId)} / ${name(modules, e.moduleId)}`;
+
+  const revert = async (entry: AuditEntry) => {
+    const change = revertChange(entry, { permissions, userRoles });
+    if (!change) {
+      alert(t("history.nothingToRevert"));
+      return;
+    }
+    if (!confirm(t("history.confirmRevert", { target: target(entry) }))) return;
+    if (!confirmPanelAccess(snapshot, { roles, ...withChange({ permissions, userRoles }, change) }, modules, users)) return;
+    setReverting(entry.id ?? null);
+    try {
+      await applyPendingChange(change);
+    } catch (e) {
+      alert(t("history.revertFailed", { error: describeError(e) }));
+    }
+    setReverting(null);
+    await onChanged();
+    await load();
+  };
+
+  const shown = filterAuditEntries(entries, filters, userRoles);
+  const page = Math.min(paging.page, Math.max(0, Math.ceil(shown.length / paging.pageSize) - 1));
+  const pageEntries = shown.slice(page * paging.pageSize, (page + 1) * paging.pageSize);
+  const setFilter = (patch: Partial<typeof filters>) => {
+    setFilters({ ...filters, ...patch });
+    setPaging({ ...paging, page: 0 });
+  };
+
+  return (
+    <div style={panelStyle}>
+      <h3 style={{ margin: 0 }}>{t("history.title")}</h3>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", margin: "12px 0", fontSize: 13 }}>
+        <select style={selectStyle} value={filters.userId ?? ""} onChange={(e) => setFilter({ userId: idOrNull(e.target.value) })} title={t("history.userFilterTitle")}>
+          <option value="">{t("common.allUsers")}</option>
+          {users.map((u) => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+        <select style={selectStyle} value={filters.roleId ?? ""} onChange={(e) => setFilter({ roleId: idOrNull(e.target.value) })}>
+          <option value="">{t("common.allRoles")}</option>
+          {roles.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+        <select style={selectStyle} value={filters.moduleId ?? ""} onChange={(e) => setFilter({ moduleId: idOrNull(e.target.value) })}>
+          <option value="">{t("common.allModules")}</option>
+          {modules.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <label>{t("history.from")} <input type="date" style={selectStyle} value={filters.from} onChange={(e) => setFilter({ from: e.target.value })} /></label>
+        <label>{t("history.to")} <input type="date" style={selectStyle} value={filters.to} onChange={(e) => setFilter({ to: e.target.value })} /></label>
+        <button onClick={() => setFilter(defaultAuditFilters)}>{t("common.clearFilters")}</button>
+        <button onClick={load} disabled={loading} style={{ marginLeft: "auto" }}>{loading ? t("common.loading") : t("common.refresh")}</button>
+      </div>
+
+      {error && <div style={{ color: colors.danger, marginBottom: 10 }}>{t("history.loadFailed", { error })}</div>}
+      {revertBlockedReason && <div style={{ color: colors.warning, fontSize: 13, marginBottom: 10 }}>{revertBlockedReason}</div>}
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+        <thead>
+          <tr style={{ background: colors.headerBg }}>
+            <th style={cell}>{t("history.when")}</th>
+            <th style={cell}>{t("history.who")}</th>
+            <th style={cell}>{t("history.change")}</th>
+            <th style={cell}>{t("history.details")}</th>
+            <th style={cell} />
+          </tr>
+        </thead>
+        <tbody>
+          {pageEntries.map((e) => (
+            <tr key={e.id} style={{ borderTop: `1px solid ${colors.divider}` }}>
+              <td style={{ ...cell, whiteSpace: "nowrap" }}>{formatDateTime(e.at)}</td>
+              <td style={cell}>{e.actor}</td>
+              <td style={cell}>
+                <span style={{ color: opColor[e.op], fontWeight: 600, textTransform: "capitalize" }}>{t(`op.${e.op}`)}</span>{" "}
+                {e.entity === "userRole" ? t("change.roleAssignment") : t("change.permission")}: {target(e)}
+              </td>
+              <td style={cell}>
+                {auditDiff(e).map((line) => <div key={line}>{line}</div>)}
+                {e.entity === "permission" && (
+                  <details style={{ color: colors.textMuted }}>
+                    <summary style={{ cursor: "pointer" }}>{t("history.beforeAfter")}</summary>
+                    <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>{JSON.stringify({ before: strip(e.before), after: strip(e.after) }, null, 1)}</pre>
+                  </details>
+                )}
+              </td>
+              <td style={{ ...cell, textAlign: "right" }}>
+                <button disabled={!!revertBlockedReason || reverting !== null} onClick={() => revert(e)}>
+                  {reverting === e.id ? t("history.reverting") : t("history.revert")}
+                </button>
+              </td>
+            </tr>
+          ))}
+          {!loading && shown.length === 0 && (
+            <tr>
+              <td colSpan={5} style={{ padding: 16, textAlign: "center", color: colors.textMuted }}>{entries.length ? t("history.noMatches") : t("history.noChanges")}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <Pagination total={shown.length} page={page} pageSize={paging.pageSize} onChange={(p, size) => setPaging({ page: p, pageSize: size })} />
+    </div>
+  );
+}
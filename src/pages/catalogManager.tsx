@@ -0,0 +1,366 @@
+import React, { useId, useState } from "react";
+import { api, describeError } from "../api/client";
+import type { Module, Permission, Role, User, UserRole } from "../api/types";
+import { confirmPanelAccess } from "../components/confirmPanelAccess";
+import Dialog, { dialogButton, dialogPrimaryButton } from "../components/dialog";
+import { colors } from "../components/theme";
+import { moduleFields, serializeFields } from "../lib/fields";
+import { t } from "../lib/i18n";
+import { isPanelModule } from "../lib/panelAccess";
+import { wouldCreateCycle } from "../lib/permissions";
+
+type Props = {
+  users: User[];
+  roles: Role[];
+  modules: Module[];
+  permissions: Permission[];
+  userRoles: UserRole[];
+  // called after every successful change so the parent can reload
+  onChanged: () => Promise<void>;
+};
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)", marginBottom: 16 };
+const inputStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: `1px solid ${colors.controlBorder}` };
+const btn: React.CSSProperties = { padding: "6px 10px", borderRadius: 6, border: `1px solid ${colors.controlBorder}`, background: colors.surface, cursor: "pointer", marginLeft: 6 };
+const primaryBtn: React.CSSProperties = { ...btn, background: colors.primary, color: colors.onDark, border: "none" };
+const dangerBtn: React.CSSProperties = { ...btn, background: colors.danger, color: colors.onDark, border: "none" };
+
+// Simple create / rename / delete list used for roles and users
+function NamedList({
+  title,
+  items,
+  onCreate,
+  onRename,
+  onDelete,
+  details,
+}: {
+  title: string;
+  items: { id: number; name: string }[];
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: number, name: string) => Promise<void>;
+  onDelete: (id: number) => Promise<void>;
+  // extra per-item content (e.g. role parents) shown under the name
+  details?: (id: number) => React.ReactNode;
+}) {
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(null);
+
+  const create = async () => {
+    if (!newName.trim()) return;
+    await onCreate(newName.trim());
+    setNewName("");
+  };
+
+  const rename = async () => {
+    if (!editing || !editing.name.trim()) return;
+    await onRename(editing.id, editing.name.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div style={panelStyle}>
+      <h3 style={{ marginTop: 0 }}>{title}</h3>
+
+      <div style={{ marginBottom: 12 }}>
+        <input style={inputStyle} placeholder={t("catalog.name")} value={newName} onChange={(e) => setNewName(e.target.value)} />
+        <button style={primaryBtn} onClick={create}>{t("catalog.create")}</button>
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <tbody>
+          {items.map((it) => (
+            <tr key={it.id} style={{ borderTop: `1px solid ${colors.divider}` }}>
+              <td style={{ padding: 8 }}>
+                {editing?.id === it.id ? (
+                  <input style={inputStyle} value={editing.name} onChange={(e) => setEditing({ id: it.id, name: e.target.value })} />
+                ) : (
+                  it.name
+                )}
+                {details?.(it.id)}
+              </td>
+              <td style={{ padding: 8, textAlign: "right" }}>
+                {editing?.id === it.id ? (
+                  <>
+                    <button style={btn} onClick={() => setEditing(null)}>{t("common.cancel")}</button>
+                    <button style={primaryBtn} onClick={rename}>{t("common.save")}</button>
+                  </>
+                ) : (
+                  <>
+                    <button style={btn} onClick={() => setEditing({ id: it.id, name: it.name })}>{t("common.rename")}</button>
+                    <button style={dangerBtn} onClick={() => onDelete(it.id)}>{t("common.delete")}</button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function CatalogManager({ users, roles, modules, permissions, userRoles, onChanged }: Props) {
+  // module editor: null = closed, id null = creating a new module
+  const [moduleEditor, setModuleEditor] = useState<{ id: number | null; name: string; fields: string[]; newField: string } | null>(null);
+  // role parents editor: null = closed
+  const [parentsEditor, setParentsEditor] = useState<{ roleId: number; parentIds: number[] } | null>(null);
+
+  // run a change and reload; report failures instead of leaving half-done state silently
+  const run = async (fn: () => Promise<void>) => {
+    try {
+      await fn();
+    } catch (e) {
+      alert(t("catalog.operationFailed", { error: describeError(e) }));
+    }
+    await onChanged();
+  };
+
+  // asks before a change that would leave nobody able to run the panel (see lib/panelAccess)
+  const keepsPanelAccess = (after: { roles?: Role[]; permissions?: Permission[]; userRoles?: UserRole[] }) =>
+    confirmPanelAccess({ roles, permissions, userRoles }, { roles, permissions, userRoles, ...after }, modules, users);
+
+  // ---------- Roles ----------
+  const deleteRole = (roleId: number) => {
+    const role = roles.find((r) => r.id === roleId);
+    const perms = permissions.filter((p) => p.roleId === roleId);
+    const rels = userRoles.filter((ur) => ur.roleId === roleId);
+    const children = roles.filter((r) => r.parentIds?.includes(roleId));
+    const params = { name: role?.name ?? "", permissions: perms.length, assignments: rels.length, children: children.map((r) => r.name).join(", ") };
+    const msg = t(children.length ? "catalog.confirmDeleteRoleChildren" : "catalog.confirmDeleteRole", params);
+    if (!confirm(msg)) return;
+    const after = {
+      roles: roles.filter((r) => r.id !== roleId).map((r) => (r.parentIds?.includes(roleId) ? { ...r, parentIds: r.parentIds.filter((id) => id !== roleId) } : r)),
+      permissions: permissions.filter((p) => p.roleId !== roleId),
+      userRoles: userRoles.filter((ur) => ur.roleId !== roleId),
+    };
+    if (!keepsPanelAccess(after)) return;
+
+    return run(async () => {
+      for (const p of perms) if (p.id) await api.permissions.remove(p.id);
+      for (const ur of rels) if (ur.id) await api.userRoles.remove(ur.id);
+      for (const r of children) await api.roles.update(r.id, { ...r, parentIds: r.parentIds!.filter((id) => id !== roleId) });
+      await api.roles.remove(roleId);
+    });
+  };
+
+  const roleParents = (roleId: number) => {
+    const names = (roles.find((r) => r.id === roleId)?.parentIds ?? []).map((id) => roles.find((r) => r.id === id)?.name).filter(Boolean);
+    return (
+      <div style={{ fontSize: 12, color: colors.textMuted, marginTop: 4 }}>
+        {t("catalog.inheritsFrom", { roles: names.length ? names.join(", ") : t("catalog.nothing") })}
+        <button style={{ ...btn, padding: "2px 8px" }} onClick={() => setParentsEditor({ roleId, parentIds: roles.find((r) => r.id === roleId)?.parentIds ?? [] })}>
+          {t("common.edit")}
+        </button>
+      </div>
+    );
+  };
+
+  const saveParents = async () => {
+    if (!parentsEditor) return;
+    const role = roles.find((r) => r.id === parentsEditor.roleId);
+    if (role && !keepsPanelAccess({ roles: roles.map((r) => (r.id === role.id ? { ...r, parentIds: parentsEditor.parentIds } : r)) })) return;
+    if (role) await run(async () => { await api.roles.update(role.id, { ...role, parentIds: parentsEditor.parentIds }); });
+    setParentsEditor(null);
+  };
+
+  // ---------- Users ----------
+  const deleteUser = (userId: number) => {
+    const user = users.find((u) => u.id === userId);
+    const rels = userRoles.filter((ur) => ur.userId === userId);
+    const msg = t("catalog.confirmDeleteUser", { name: user?.name ?? "", assignments: rels.length });
+    if (!confirm(msg)) return;
+    if (!keepsPanelAccess({ userRoles: userRoles.filter((ur) => ur.userId !== userId) })) return;
+
+    return run(async () => {
+      for (const ur of rels) if (ur.id) await api.userRoles.remove(ur.id);
+      await api.users.remove(userId);
+    });
+  };
+
+  // ---------- Modules ----------
+  const openModuleEditor = (m?: Module) => {
+    setModuleEditor(m ? { id: m.id, name: m.name, fields: moduleFields(m), newField: "" } : { id: null, name: "", fields: [], newField: "" });
+  };
+
+  const addField = () => {
+    setModuleEditor((ed) => {
+      if (!ed) return ed;
+      const f = ed.newField.trim();
+      if (!f || ed.fields.includes(f)) return { ...ed, newField: "" };
+      return { ...ed, fields: [...ed.fields, f], newField: "" };
+    });
+  };
+
+  const saveModule = async () => {
+    if (!moduleEditor || !moduleEditor.name.trim()) return;
+    const { id, name, fields } = moduleEditor;
+    const original = modules.find((m) => m.id === id);
+    await run(async () => {
+      // panel modules keep their name (the input is locked too; this covers a stale editor)
+      const payload = { name: original && isPanelModule(original) ? original.name : name.trim(), fields: serializeFields(fields, original?.fields) };
+      if (id === null || !original) await api.modules.create(payload);
+      else await api.modules.update(id, { ...original, ...payload });
+    });
+    setModuleEditor(null);
+  };
+
+  // the panel's own modules keep their name (see lib/panelAccess)
+  const editedModule = modules.find((m) => m.id === moduleEditor?.id);
+  const lockedName = !!editedModule && isPanelModule(editedModule);
+  const lockedNameHelpId = useId();
+
+  const deleteModule = (moduleId: number) => {
+    const mod = modules.find((m) => m.id === moduleId);
+    if (mod && isPanelModule(mod)) return alert(t("catalog.panelModuleLocked", { name: mod.name }));
+    const perms = permissions.filter((p) => p.moduleId === moduleId);
+    const msg = t("catalog.confirmDeleteModule", { name: mod?.name ?? "", permissions: perms.length });
+    if (!confirm(msg)) return;
+
+    return run(async () => {
+      for (const p of perms) if (p.id) await api.permissions.remove(p.id);
+      await api.modules.remove(moduleId);
+    });
+  };
+
+  return (
+    <div>
+      <NamedList
+        title={t("catalog.roles")}
+        items={roles}
+        onCreate={(name) => run(async () => { await api.roles.create({ name }); })}
+        onRename={(id, name) => run(async () => { await api.roles.update(id, { ...roles.find((r) => r.id === id), id, name }); })}
+        onDelete={async (id) => { await deleteRole(id); }}
+        details={roleParents}
+      />
+
+      <NamedList
+        title={t("catalog.users")}
+        items={users}
+        onCreate={(name) => run(async () => { await api.users.create({ name }); })}
+        onRename={(id, name) => run(async () => { await api.users.update(id, { id, name }); })}
+        onDelete={async (id) => { await deleteUser(id); }}
+      />
+
+      <div style={panelStyle}>
+        <h3 style={{ marginTop: 0 }}>{t("catalog.modules")}</h3>
+        <div style={{ marginBottom: 12 }}>
+          <button style={{ ...primaryBtn, marginLeft: 0 }} onClick={() => openModuleEditor()}>{t("catalog.newModule")}</button>
+        </div>
+
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <tbody>
+            {modules.map((m) => (
+              <tr key={m.id} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                <td style={{ padding: 8, fontWeight: 600 }}>{m.name}</td>
+                <td style={{ padding: 8, fontSize: 12, color: colors.textMuted }}>{moduleFields(m).join(", ") || t("catalog.noFields")}</td>
+                <td style={{ padding: 8, textAlign: "right" }}>
+                  <button style={btn} onClick={() => openModuleEditor(m)}>{t("common.edit")}</button>
+                  <button
+                    style={isPanelModule(m) ? { ...dangerBtn, opacity: 0.5, cursor: "not-allowed" } : dangerBtn}
+                    onClick={() => deleteModule(m.id)}
+                    disabled={isPanelModule(m)}
+                    title={isPanelModule(m) ? t("catalog.panelModuleLocked", { name: m.name }) : undefined}
+                  >
+                    {t("common.delete")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ROLE PARENTS MODAL */}
+      {parentsEditor && (
+        <Dialog
+          title={t("catalog.parentsTitle", { role: roles.find((r) => r.id === parentsEditor.roleId)?.name ?? "" })}
+          onClose={() => setParentsEditor(null)}
+          width={420}
+          footer={
+            <>
+              <button onClick={() => setParentsEditor(null)} style={dialogButton}>{t("common.cancel")}</button>
+              <button onClick={saveParents} style={dialogPrimaryButton}>{t("common.save")}</button>
+            </>
+          }
+        >
+          <p style={{ fontSize: 12, color: colors.textMuted, marginTop: 0 }}>{t("catalog.parentsHelp")}</p>
+          {roles
+            .filter((r) => r.id !== parentsEditor.roleId)
+            .map((r) => {
+              const checked = parentsEditor.parentIds.includes(r.id);
+              // a role that already inherits from this one cannot become its parent
+              const cycle = !checked && wouldCreateCycle(parentsEditor.roleId, r.id, roles);
+              return (
+                <label key={r.id} style={{ display: "block", marginBottom: 6, color: cycle ? colors.textMuted : undefined }} title={cycle ? t("catalog.cycleTitle") : undefined}>
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={cycle}
+                    onChange={() =>
+                      setParentsEditor({
+                        ...parentsEditor,
+                        parentIds: checked ? parentsEditor.parentIds.filter((id) => id !== r.id) : [...parentsEditor.parentIds, r.id],
+                      })
+                    }
+                  />{" "}
+                  {r.name}
+                  {cycle && t("catalog.cycle")}
+                </label>
+              );
+            })}
+        </Dialog>
+      )}
+
+      {/* MODULE EDITOR MODAL */}
+      {moduleEditor && (
+        <Dialog
+          title={moduleEditor.id === null ? t("catalog.newModule") : t("catalog.editModule")}
+          onClose={() => setModuleEditor(null)}
+          width={460}
+          footer={
+            <>
+              <button onClick={() => setModuleEditor(null)} style={dialogButton}>{t("common.cancel")}</button>
+              <button onClick={saveModule} style={dialogPrimaryButton}>{t("common.save")}</button>
+            </>
+          }
+        >
+          <label style={{ display: "block", marginBottom: 12 }}>
+            <strong>{t("catalog.name")}</strong>
+            <div style={{ marginTop: 6 }}>
+              <input
+                style={{ ...inputStyle, width: "100%" }}
+                value={moduleEditor.name}
+                onChange={(e) => setModuleEditor({ ...moduleEditor, name: e.target.value })}
+                readOnly={lockedName}
+                aria-describedby={lockedName ? lockedNameHelpId : undefined}
+              />
+            </div>
+            {lockedName && <div id={lockedNameHelpId} style={{ fontSize: 12, color: colors.textMuted, marginTop: 4 }}>{t("catalog.panelModuleLocked", { name: moduleEditor.name })}</div>}
+          </label>
+
+          <strong>{t("catalog.fields")}</strong>
+          <div style={{ marginTop: 8 }}>
+            {moduleEditor.fields.map((f) => (
+              <div key={f} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 6 }}>
+                <span>{f}</span>
+                <button style={btn} onClick={() => setModuleEditor({ ...moduleEditor, fields: moduleEditor.fields.filter((x) => x !== f) })}>{t("catalog.remove")}</button>
+              </div>
+            ))}
+            {moduleEditor.fields.length === 0 && <div style={{ fontSize: 12, color: colors.textMuted }}>{t("catalog.noFields")}</div>}
+          </div>
+          <div style={{ marginTop: 8 }}>
+            <input
+              style={inputStyle}
+              placeholder={t("catalog.newField")}
+              aria-label={t("catalog.newField")}
+              value={moduleEditor.newField}
+              onChange={(e) => setModuleEditor({ ...moduleEditor, newField: e.target.value })}
+              onKeyDown={(e) => e.key === "Enter" && addField()}
+            />
+            <button style={btn} onClick={addField}>{t("common.add")}</button>
+          </div>
+        </Dialog>
+      )}
+    </div>
+  );
+}
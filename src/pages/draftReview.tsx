@@ -0,0 +1,93 @@
+import React from "react";
+import type { Module, Permission, Role, User } from "../api/types";
+import { colors } from "../components/theme";
+import type { PendingChange } from "../lib/draft";
+import { actionLabel, t } from "../lib/i18n";
+
+type Props = {
+  changes: PendingChange[];
+  users: User[];
+  roles: Role[];
+  modules: Module[];
+  applying: boolean;
+  onApply: () => void;
+  onDiscard: () => void;
+};
+
+const opColor = { create: colors.success, update: colors.caution, delete: colors.danger };
+const cell: React.CSSProperties = { padding: 8, textAlign: "left", verticalAlign: "top" };
+
+const list = (v?: string[]) => (v && v.length ? v.join(", ") : "—");
+
+// Human readable before/after lines for a permission record
+function permissionLines(p: Permission | null) {
+  if (!p) return null;
+  return (
+    <>
+      <div>{t("change.actions")}: {list((p.actions ?? []).map(actionLabel))}</div>
+      <div>{t("change.queryFields")}: {list(p.visibleFields)}</div>
+      <div>{t("change.updateFields")}: {list(p.editableFields)}</div>
+      {!!(p.deniedActions?.length || p.deniedVisibleFields?.length || p.deniedEditableFields?.length) && (
+        <div style={{ color: colors.danger }}>
+          {t("change.denies")}:{" "}
+          {list([
+            ...(p.deniedActions ?? []).map(actionLabel),
+            ...(p.deniedVisibleFields ?? []).map((field) => t("change.query", { field })),
+            ...(p.deniedEditableFields ?? []).map((field) => t("change.update", { field })),
+          ])}
+        </div>
+      )}
+    </>
+  );
+}
+
+// Review panel for draft mode: before/after of every pending create/update/delete
+export default function DraftReview({ changes, users, roles, modules, applying, onApply, onDiscard }: Props) {
+  const name = (items: { id: number; name: string }[], id: number) => items.find((i) => i.id === id)?.name ?? `#${id}`;
+
+  const target = (c: PendingChange) => {
+    if (c.kind === "userRole") {
+      const r = (c.after ?? c.before)!;
+      return `${t("change.roleAssignment")}: ${name(users, r.userId)} → ${name(roles, r.roleId)}`;
+    }
+    const p = (c.after ?? c.before)!;
+    return `${t("change.permission")}: ${name(roles, p.roleId)} / ${name(modules, p.moduleId)}`;
+  };
+
+  return (
+    <div style={{ background: colors.noticeBg, border: `1px solid ${colors.noticeBorder}`, padding: 12, borderRadius: 10, marginBottom: 16 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <strong>{t("draft.pending", { count: changes.length })}</strong>
+        <div>
+          <button onClick={onDiscard} disabled={applying || changes.length === 0} style={{ marginRight: 8, padding: "6px 10px", borderRadius: 6 }}>{t("draft.discardAll")}</button>
+          <button onClick={onApply} disabled={applying || changes.length === 0} style={{ padding: "6px 10px", borderRadius: 6, background: colors.primary, color: colors.onDark, border: "none" }}>
+            {applying ? t("draft.applying") : t("draft.applyAll")}
+          </button>
+        </div>
+      </div>
+
+      {changes.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12, marginTop: 10, background: colors.surface }}>
+          <thead>
+            <tr style={{ background: colors.headerBg }}>
+              <th style={cell}>{t("draft.change")}</th>
+              <th style={cell}>{t("draft.target")}</th>
+              <th style={cell}>{t("draft.before")}</th>
+              <th style={cell}>{t("draft.after")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((c) => (
+              <tr key={`${c.kind}-${c.key}`} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                <td style={{ ...cell, color: opColor[c.op], fontWeight: 600, textTransform: "capitalize" }}>{t(`op.${c.op}`)}</td>
+                <td style={cell}>{target(c)}</td>
+                <td style={cell}>{c.kind === "permission" ? permissionLines(c.before) : c.before ? t("change.assigned") : "—"}</td>
+                <td style={cell}>{c.kind === "permission" ? permissionLines(c.after) : c.after ? t("change.assigned") : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
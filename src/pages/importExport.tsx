@@ -0,0 +1,226 @@
+import React, { useState } from "react";
+import { api, describeError, upsertPermission } from "../api/client";
+import { confirmPanelAccess } from "../components/confirmPanelAccess";
+import { download } from "../components/download";
+import { colors } from "../components/theme";
+import { serializeFields } from "../lib/fields";
+import { actionLabel, t } from "../lib/i18n";
+import { exportModel, modelToCsv, parseModelDocument, importResult, planImport, type ImportPlan, type Snapshot, type StepOp } from "../lib/modelTransfer";
+
+type Props = Snapshot & {
+  // why import is unavailable (pending draft changes, missing rights); unset = allowed
+  importBlockedReason?: string | null;
+  onChanged: () => Promise<void>;
+};
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)", marginBottom: 16 };
+const btn: React.CSSProperties = { padding: "8px 12px", borderRadius: 6, border: `1px solid ${colors.controlBorder}`, background: colors.surface, cursor: "pointer", marginRight: 8 };
+const primaryBtn: React.CSSProperties = { ...btn, background: colors.primary, color: colors.onDark, border: "none" };
+const opColor: Record<StepOp, string> = { create: colors.success, update: colors.caution, unchanged: colors.textMuted };
+
+function PlanSection<T extends { op: StepOp }>({ title, items, label }: { title: string; items: T[]; label: (item: T) => string }) {
+  const changes = items.filter((i) => i.op !== "unchanged");
+  return (
+    <div style={{ marginTop: 10 }}>
+      <strong>{title}</strong>{" "}
+      <span style={{ fontSize: 12, color: colors.textMuted }}>{t("transfer.toApply", { changes: changes.length, unchanged: items.length - changes.length })}</span>
+      <ul style={{ margin: "6px 0", paddingLeft: 20, fontSize: 13 }}>
+        {changes.map((i, idx) => (
+          <li key={idx}>
+            <span style={{ color: opColor[i.op], fontWeight: 600, textTransform: "capitalize" }}>{t(i.op === "unchanged" ? "transfer.opUnchanged" : `op.${i.op}`)}</span> {label(i)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Export the authorization model (JSON / CSV) and import it back with a dry-run preview
+export default function ImportExport({ importBlockedReason, onChanged, ...snapshot }: Props) {
+  const [text, setText] = useState("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [applyErrors, setApplyErrors] = useState<string[]>([]);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const exportJson = () =>
+    download(`authorization-model-${stamp}.json`, JSON.stringify(exportModel(snapshot), null, 2), "application/json");
+
+  const exportCsv = () => download(`permissions-matrix-${stamp}.csv`, modelToCsv(snapshot), "text/csv");
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setPlan(null);
+  };
+
+  const preview = () => {
+    setApplyErrors([]);
+    try {
+      setPlan(planImport(parseModelDocument(text), snapshot));
+      setParseError(null);
+    } catch (e) {
+      setPlan(null);
+      setParseError(describeError(e));
+    }
+  };
+
+  const pendingCount = plan
+    ? [...plan.roles, ...plan.modules, ...plan.permissions, ...plan.userRoles].filter((i) => i.op !== "unchanged").length
+    : 0;
+
+  const apply = async () => {
+    if (!plan || plan.issues.length) return;
+    const result = importResult(plan, snapshot);
+    if (!confirmPanelAccess(snapshot, result, result.modules, snapshot.users)) return;
+    setApplying(true);
+    const errors: string[] = [];
+    const attempt = async (label: string, fn: () => Promise<unknown>) => {
+      try {
+        await fn();
+      } catch (e) {
+        errors.push(`${label}: ${describeError(e)}`);
+      }
+    };
+
+    for (const r of plan.roles.filter((r) => r.op === "create")) {
+      await attempt(t("transfer.itemRole", { name: r.name }), () => api.roles.create({ name: r.name }));
+    }
+    for (const m of plan.modules.filter((m) => m.op !== "unchanged")) {
+      await attempt(t("transfer.itemModule", { name: m.name }), () =>
+        m.existing
+          ? api.modules.update(m.existing.id, { ...m.existing, fields: serializeFields(m.fields, m.existing.fields) })
+          : api.modules.create({ name: m.name, fields: m.fields })
+      );
+    }
+
+    // resolve names to ids, including the roles/modules created above
+    let roles = snapshot.roles;
+    let modules = snapshot.modules;
+    await attempt(t("transfer.reload"), async () => {
+      [roles, modules] = await Promise.all([api.roles.list(), api.modules.list()]);
+    });
+    const roleId = (name: string) => roles.find((r) => r.name === name)?.id;
+    const moduleId = (name: string) => modules.find((m) => m.name === name)?.id;
+
+    // parents are set once every role exists, so a role may inherit from one created later in the document
+    for (const r of plan.roles.filter((r) => r.op !== "unchanged" && r.parents)) {
+      const role = roles.find((x) => x.name === r.name);
+      const parentIds = r.parents!.map(roleId).filter((id): id is number => id !== undefined);
+      if (!role) {
+        errors.push(`${t("transfer.itemRole", { name: r.name })}: ${t("transfer.roleNotCreated")}`);
+        continue;
+      }
+      if (r.op === "create" && !parentIds.length) continue;
+      await attempt(t("transfer.itemParents", { name: r.name }), () => api.roles.update(role.id, { ...role, parentIds }));
+    }
+
+    for (const p of plan.permissions.filter((p) => p.op !== "unchanged")) {
+      const rid = roleId(p.role);
+      const mid = moduleId(p.module);
+      const item = t("transfer.itemPermission", { role: p.role, module: p.module });
+      if (!rid || !mid) {
+        errors.push(`${item}: ${t("transfer.roleOrModuleNotCreated")}`);
+        continue;
+      }
+      const { actions, visibleFields, editableFields, deniedActions, deniedVisibleFields, deniedEditableFields } = p;
+      await attempt(item, () =>
+        upsertPermission(p.existing, rid, mid, { actions, visibleFields, editableFields, deniedActions, deniedVisibleFields, deniedEditableFields })
+      );
+    }
+    for (const ur of plan.userRoles.filter((ur) => ur.op === "create")) {
+      const uid = snapshot.users.find((u) => u.name === ur.user)?.id;
+      const rid = roleId(ur.role);
+      const item = t("transfer.itemAssignment", { user: ur.user, role: ur.role });
+      if (!uid || !rid) {
+        errors.push(`${item}: ${t("transfer.userOrRoleNotFound")}`);
+        continue;
+      }
+      await attempt(item, () => api.userRoles.create({ userId: uid, roleId: rid }));
+    }
+
+    setApplying(false);
+    setApplyErrors(errors);
+    setPlan(null);
+    await onChanged();
+  };
+
+  return (
+    <div>
+      <div style={panelStyle}>
+        <h3 style={{ marginTop: 0 }}>{t("transfer.export")}</h3>
+        <p style={{ fontSize: 13, color: colors.textMuted, marginTop: 0 }}>
+          {t("transfer.exportHelp")}
+        </p>
+        <button style={primaryBtn} onClick={exportJson}>{t("transfer.exportJson")}</button>
+        <button style={btn} onClick={exportCsv}>{t("transfer.exportCsv")}</button>
+      </div>
+
+      <div style={panelStyle}>
+        <h3 style={{ marginTop: 0 }}>{t("transfer.import")}</h3>
+        <p style={{ fontSize: 13, color: colors.textMuted, marginTop: 0 }}>
+          {t("transfer.importHelp")}
+        </p>
+
+        {importBlockedReason ? (
+          <div>{importBlockedReason}</div>
+        ) : (
+          <>
+            <input type="file" accept="application/json,.json" onChange={(e) => loadFile(e.target.files?.[0])} />
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setPlan(null);
+              }}
+              placeholder={t("transfer.paste")}
+              style={{ display: "block", width: "100%", minHeight: 140, marginTop: 10, fontFamily: "monospace", fontSize: 12 }}
+            />
+            <div style={{ marginTop: 10 }}>
+              <button style={btn} onClick={preview} disabled={!text.trim()}>{t("transfer.preview")}</button>
+              <button style={primaryBtn} onClick={apply} disabled={!plan || plan.issues.length > 0 || pendingCount === 0 || applying}>
+                {applying ? t("draft.applying") : t("transfer.apply", { count: pendingCount })}
+              </button>
+            </div>
+          </>
+        )}
+
+        {parseError && <div style={{ color: colors.danger, marginTop: 10 }}>{parseError}</div>}
+
+        {plan && (
+          <div style={{ marginTop: 12 }}>
+            {plan.issues.length > 0 && (
+              <div style={{ background: colors.errorBg, border: `1px solid ${colors.errorBorder}`, padding: 10, borderRadius: 8 }}>
+                <strong>{t("transfer.issues", { count: plan.issues.length })}</strong>
+                <ul style={{ margin: "6px 0", paddingLeft: 20, fontSize: 13 }}>
+                  {plan.issues.map((i, idx) => <li key={idx}>{i}</li>)}
+                </ul>
+              </div>
+            )}
+            <PlanSection title={t("transfer.roles")} items={plan.roles} label={(r) => (r.parents?.length ? t("transfer.inherits", { name: r.name, parents: r.parents.join(", ") }) : r.name)} />
+            <PlanSection title={t("transfer.modules")} items={plan.modules} label={(m) => `${m.name} (${m.fields.join(", ") || t("transfer.noFields")})`} />
+            <PlanSection
+              title={t("transfer.permissions")}
+              items={plan.permissions}
+              label={(p) =>
+                `${p.role} / ${p.module}: ${p.actions.map(actionLabel).join(", ") || t("transfer.noActions")}${p.deniedActions?.length ? t("transfer.denies", { actions: p.deniedActions.map(actionLabel).join(", ") }) : ""}`
+              }
+            />
+            <PlanSection title={t("transfer.roleAssignments")} items={plan.userRoles} label={(ur) => `${ur.user} → ${ur.role}`} />
+          </div>
+        )}
+
+        {applyErrors.length > 0 && (
+          <div style={{ color: colors.danger, marginTop: 10 }}>
+            <strong>{t("transfer.failed", { count: applyErrors.length })}</strong>
+            <ul style={{ margin: "6px 0", paddingLeft: 20, fontSize: 13 }}>
+              {applyErrors.map((e, idx) => <li key={idx}>{e}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
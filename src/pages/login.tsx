@@ -0,0 +1,54 @@
+import React, { useState } from "react";
+import { describeError, login, USE_MOCK, type Session } from "../api/client";
+import { colors } from "../components/theme";
+import { t } from "../lib/i18n";
+
+type Props = {
+  onLoggedIn: (session: Session) => void;
+  // why the user is here again (e.g. the session expired)
+  notice?: string | null;
+};
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: "8px 10px", borderRadius: 6, border: `1px solid ${colors.controlBorder}`, boxSizing: "border-box" };
+
+export default function Login({ onLoggedIn, notice }: Props) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      onLoggedIn(await login(username.trim(), password));
+    } catch (err) {
+      setError(describeError(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} style={{ maxWidth: 340, background: colors.surface, padding: 22, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" }}>
+      <h3 style={{ marginTop: 0 }}>{t("login.title")}</h3>
+      {notice && <div style={{ background: colors.noticeBg, border: `1px solid ${colors.noticeBorder}`, padding: 8, borderRadius: 6, marginBottom: 12, fontSize: 13 }}>{notice}</div>}
+
+      <label style={{ display: "block", marginBottom: 12 }}>
+        {t("login.username")}
+        <input style={inputStyle} value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" autoFocus />
+      </label>
+      <label style={{ display: "block", marginBottom: 12 }}>
+        {t("login.password")}
+        <input style={inputStyle} type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="current-password" />
+      </label>
+
+      {error && <div style={{ color: colors.danger, fontSize: 13, marginBottom: 12 }}>{error}</div>}
+      {USE_MOCK && <div style={{ color: colors.warning, fontSize: 12, marginBottom: 12 }}>{t("login.mockHint")}</div>}
+
+      <button type="submit" disabled={busy || !username.trim() || !password} style={{ padding: "8px 14px", borderRadius: 6, background: colors.primary, color: colors.onDark, border: "none" }}>
+        {busy ? t("login.submitting") : t("login.submit")}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useMemo } from "react";
+import { Link } from "../components/route";
+import { colors } from "../components/theme";
+import { buildDashboard, SENSITIVE_MODULES } from "../lib/analytics";
+import { t } from "../lib/i18n";
+import type { Snapshot } from "../lib/modelTransfer";
+import type { Grant } from "../lib/permissions";
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" };
+const cardStyle: React.CSSProperties = { border: `1px solid ${colors.divider}`, borderRadius: 8, padding: 12 };
+const listStyle: React.CSSProperties = { margin: "8px 0 0", paddingLeft: 20, fontSize: 13 };
+
+const grantNames = (grants: Grant[]) => grants.map((g) => (g.inherited ? t("rights.inheritedVia", { role: g.role.name, via: g.via.name }) : g.role.name)).join(", ");
+
+function Card({ title, count, help, children }: { title: string; count: number; help: string; children: React.ReactNode }) {
+  return (
+    <section style={cardStyle}>
+      <h4 style={{ margin: 0 }}>
+        {title} <span style={{ color: count ? colors.caution : colors.success }}>({count})</span>
+      </h4>
+      <div style={{ fontSize: 12, color: colors.textMuted, marginTop: 4 }}>{help}</div>
+      {count === 0 ? <div style={{ fontSize: 13, marginTop: 8, color: colors.success }}>{t("dashboard.nothingFound")}</div> : children}
+    </section>
+  );
+}
+
+// Findings worth a look before an access review: risky grants and dead or redundant parts of the model
+export default function PermissionDashboard({ users, roles, modules, permissions, userRoles }: Snapshot) {
+  const dashboard = useMemo(() => buildDashboard({ roles, permissions, userRoles }, users, modules), [users, roles, modules, permissions, userRoles]);
+  const { sensitiveDeletes, unusedRoles, modulesNobodyReads, duplicateRoles } = dashboard;
+
+  return (
+    <div style={panelStyle}>
+      <h3 style={{ marginTop: 0 }}>{t("dashboard.title")}</h3>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))", gap: 12 }}>
+        <Card
+          title={t("dashboard.sensitiveDeletes")}
+          count={sensitiveDeletes.length}
+          help={t("dashboard.sensitiveHelp", { modules: SENSITIVE_MODULES.length ? SENSITIVE_MODULES.join(", ") : t("dashboard.allModules") })}
+        >
+          <ul style={listStyle}>
+            {sensitiveDeletes.map(({ user, module, grants }) => (
+              <li key={`${user.id}-${module.id}`}>
+                <Link to={{ page: "user", userId: user.id }}>{user.name}</Link> – {module.name}{" "}
+                <span style={{ color: colors.textMuted }}>({t("dashboard.through", { roles: grantNames(grants) })})</span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+
+        <Card title={t("dashboard.unusedRoles")} count={unusedRoles.length} help={t("dashboard.unusedHelp")}>
+          <ul style={listStyle}>
+            {unusedRoles.map(({ role, inheritedBy }) => (
+              <li key={role.id}>
+                <Link to={{ page: "role", roleId: role.id }}>{role.name}</Link>
+                {inheritedBy.length > 0 && (
+                  <span style={{ color: colors.textMuted }}> ({t("dashboard.inheritedBy", { roles: inheritedBy.map((r) => r.name).join(", ") })})</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Card>
+
+        <Card title={t("dashboard.unreadModules")} count={modulesNobodyReads.length} help={t("dashboard.unreadHelp")}>
+          <ul style={listStyle}>
+            {modulesNobodyReads.map((m) => <li key={m.id}>{m.name}</li>)}
+          </ul>
+        </Card>
+
+        <Card title={t("dashboard.duplicateRoles")} count={duplicateRoles.length} help={t("dashboard.duplicateHelp")}>
+          <ul style={listStyle}>
+            {duplicateRoles.map((group) => (
+              <li key={group.map((r) => r.id).join("-")}>
+                {group.map((r, i) => (
+                  <React.Fragment key={r.id}>
+                    {i > 0 && " = "}
+                    <Link to={{ page: "role", roleId: r.id }}>{r.name}</Link>
+                  </React.Fragment>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      </div>
+    </div>
+  );
+}
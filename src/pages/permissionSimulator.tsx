@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from "react";
+import { ACTIONS, type Action, type Module, type Permission, type Role, type User, type UserRole } from "../api/types";
+import { colors } from "../components/theme";
+import { moduleFields } from "../lib/fields";
+import { actionLabel, t } from "../lib/i18n";
+import {
+  buildAccessIndex,
+  editableButHidden,
+  effectiveAccess,
+  isAllowed,
+  roleIdsOfUser,
+  type Grant,
+  type ModuleAccess,
+  type RightKind,
+} from "../lib/permissions";
+
+type Props = {
+  users: User[];
+  roles: Role[];
+  modules: Module[];
+  permissions: Permission[];
+  userRoles: UserRole[];
+};
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)", marginBottom: 16 };
+const selectStyle: React.CSSProperties = { padding: "6px 8px", borderRadius: 6, border: `1px solid ${colors.controlBorder}`, marginRight: 10 };
+const cell: React.CSSProperties = { padding: 8, textAlign: "left", verticalAlign: "top" };
+
+// "Admin (permission #3), Employee (permission #7, inherited via Manager)"
+const describeGrants = (grants: Grant[]) =>
+  grants
+    .map((g) => {
+      const params = { role: g.role.name, id: g.permission.id ?? t("simulator.new"), via: g.via.name };
+      return t(g.inherited ? "simulator.permissionRefInherited" : "simulator.permissionRef", params);
+    })
+    .join(", ");
+
+function Verdict({ allowed }: { allowed: boolean }) {
+  return (
+    <span style={{ fontWeight: 600, color: allowed ? colors.success : colors.danger }}>
+      {allowed ? t("simulator.allowed") : t("simulator.denied")}
+    </span>
+  );
+}
+
+// Grants behind a right, and the deny rules that override them
+function Reasons({ access, kind, name, none }: { access: ModuleAccess; kind: RightKind; name: string; none?: string }) {
+  const granted: Grant[] = (access[kind] as Record<string, Grant[]>)[name] ?? [];
+  const denied: Grant[] = (access.denied[kind] as Record<string, Grant[]>)[name] ?? [];
+  return (
+    <>
+      {granted.length > 0 ? <div style={{ color: colors.textMuted }}>{t("simulator.grantedBy", { grants: describeGrants(granted) })}</div> : none && <div style={{ color: colors.textMuted }}>{none}</div>}
+      {denied.length > 0 && (
+        <div style={{ color: colors.danger }}>
+          {t("simulator.deniedBy", { grants: describeGrants(denied) })}
+          {granted.length > 0 && t("simulator.denyOverrides")}
+        </div>
+      )}
+    </>
+  );
+}
+
+// Explains a user's effective rights: which role / Permission record grants or denies each action and field
+export default function PermissionSimulator({ users, roles, modules, permissions, userRoles }: Props) {
+  const [userId, setUserId] = useState<number | null>(users[0]?.id ?? null);
+  const [moduleId, setModuleId] = useState<number | null>(null);
+  const [action, setAction] = useState<Action | null>(null);
+  const [field, setField] = useState<string | null>(null);
+
+  const model = { roles, permissions, userRoles };
+  const index = useMemo(() => buildAccessIndex({ roles, permissions, userRoles }), [roles, permissions, userRoles]);
+
+  const shownModules = moduleId === null ? modules : modules.filter((m) => m.id === moduleId);
+  const selectedModule = modules.find((m) => m.id === moduleId);
+  const userRoleNames = userId === null ? [] : roleIdsOfUser(userRoles, userId).map((rid) => roles.find((r) => r.id === rid)?.name).filter(Boolean);
+
+  return (
+    <div>
+      <div style={panelStyle}>
+        <h3 style={{ marginTop: 0 }}>{t("simulator.title")}</h3>
+
+        <select style={selectStyle} value={userId ?? ""} onChange={(e) => setUserId(e.target.value ? Number(e.target.value) : null)}>
+          <option value="">{t("assign.selectUser")}</option>
+          {users.map((u) => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+
+        <select
+          style={selectStyle}
+          value={moduleId ?? ""}
+          onChange={(e) => {
+            setModuleId(e.target.value ? Number(e.target.value) : null);
+            setField(null);
+          }}
+        >
+          <option value="">{t("common.allModules")}</option>
+          {modules.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+
+        <select style={selectStyle} value={action ?? ""} onChange={(e) => setAction((e.target.value || null) as Action | null)}>
+          <option value="">{t("filters.allActions")}</option>
+          {ACTIONS.map((a) => <option key={a} value={a}>{actionLabel(a)}</option>)}
+        </select>
+
+        <select style={selectStyle} value={field ?? ""} disabled={!selectedModule} onChange={(e) => setField(e.target.value || null)}>
+          <option value="">{selectedModule ? t("simulator.allFields") : t("simulator.pickModule")}</option>
+          {selectedModule && moduleFields(selectedModule).map((f) => <option key={f} value={f}>{f}</option>)}
+        </select>
+
+        {userId !== null && (
+          <div style={{ marginTop: 10, fontSize: 13, color: colors.textMuted }}>
+            {t("rights.roles", { roles: userRoleNames.join(", ") || t("common.none") })}
+          </div>
+        )}
+      </div>
+
+      {userId === null ? null : shownModules.map((m) => {
+        const access = effectiveAccess(model, userId, m.id, index);
+        const shownActions = action ? [action] : ACTIONS;
+        // module fields plus anything a permission mentions that the module no longer declares
+        const allFields = Array.from(new Set([...moduleFields(m), ...Object.keys(access.visible), ...Object.keys(access.editable)]));
+        const shownFields = field ? [field] : allFields;
+        const hiddenEditable = editableButHidden(access);
+
+        return (
+          <div key={m.id} style={panelStyle}>
+            <h4 style={{ marginTop: 0 }}>{m.name}</h4>
+
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+              <thead>
+                <tr style={{ background: colors.headerBg }}>
+                  <th style={cell}>{t("simulator.action")}</th>
+                  <th style={cell}>{t("simulator.decision")}</th>
+                  <th style={cell}>{t("simulator.why")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownActions.map((a) => (
+                  <tr key={a} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                    <td style={{ ...cell, textTransform: "capitalize" }}>{actionLabel(a)}</td>
+                    <td style={cell}><Verdict allowed={isAllowed(access, "actions", a)} /></td>
+                    <td style={cell}><Reasons access={access} kind="actions" name={a} none={t("simulator.noRoleGrants")} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {shownFields.length > 0 && (
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13, marginTop: 12 }}>
+                <thead>
+                  <tr style={{ background: colors.headerBg }}>
+                    <th style={cell}>{t("simulator.field")}</th>
+                    <th style={cell}>{t("simulator.visible")}</th>
+                    <th style={cell}>{t("simulator.editable")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownFields.map((f) => (
+                    <tr key={f} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                      <td style={cell}>
+                        {f}
+                        {hiddenEditable.includes(f) && (
+                          <div style={{ color: colors.caution, fontSize: 12 }}>{t("simulator.editableHidden")}</div>
+                        )}
+                      </td>
+                      <td style={cell}>
+                        <Verdict allowed={isAllowed(access, "visible", f)} />
+                        <Reasons access={access} kind="visible" name={f} />
+                      </td>
+                      <td style={cell}>
+                        <Verdict allowed={isAllowed(access, "editable", f)} />
+                        <Reasons access={access} kind="editable" name={f} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React from "react";
+import { ACTIONS, type Module, type Role, type User } from "../api/types";
+import { Link } from "../components/route";
+import { colors } from "../components/theme";
+import { actionLabel, t } from "../lib/i18n";
+import { defaultMatrixFilters } from "../lib/matrixFilters";
+import { accessForRoles, allowedFields, isAllowed, onlyInherited, type AccessIndex, type Grant, type ModuleAccess } from "../lib/permissions";
+
+type Props = {
+  roleId: number;
+  users: User[];
+  roles: Role[];
+  modules: Module[];
+  index: AccessIndex;
+  // viewer may not change permissions
+  readOnly?: boolean;
+};
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" };
+const cell: React.CSSProperties = { padding: 8, textAlign: "left", verticalAlign: "top" };
+
+function LinkList({ items, to }: { items: { id: number; name: string }[]; to: (id: number) => React.ComponentProps<typeof Link>["to"] }) {
+  if (!items.length) return <>{t("common.none")}</>;
+  return (
+    <>
+      {items.map((i, n) => (
+        <React.Fragment key={i.id}>
+          {n > 0 && ", "}
+          <Link to={to(i.id)}>{i.name}</Link>
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+// allowed rights of one kind; ↑ = only inherited from a parent role
+function Rights({ access, kind, names, label = (n) => n }: { access: ModuleAccess; kind: "actions" | "visible" | "editable"; names: string[]; label?: (name: string) => string }) {
+  if (!names.length) return <>{t("common.none")}</>;
+  const grants: Record<string, Grant[]> = access[kind];
+  return <>{names.map((n) => (onlyInherited(grants[n]) ? `${label(n)}↑` : label(n))).join(", ")}</>;
+}
+
+// #/roles/:id — the role's place in the hierarchy, its members and what it grants per module
+export default function RoleDetail({ roleId, users, roles, modules, index, readOnly }: Props) {
+  const role = index.roleById.get(roleId);
+  if (!role) return <div style={panelStyle}>{t("roleDetail.notFound", { id: roleId })} <Link to={{ page: "tab", tab: "rolePermissions", filters: defaultMatrixFilters, editor: null }}>{t("roleDetail.back")}</Link></div>;
+
+  const parents = (role.parentIds ?? []).map((id) => index.roleById.get(id)).filter((r): r is Role => !!r);
+  const children = roles.filter((r) => r.parentIds?.includes(roleId));
+  const members = users.filter((u) => (index.rolesByUser.get(u.id) ?? []).includes(roleId));
+
+  return (
+    <div style={panelStyle}>
+      <h3 style={{ marginTop: 0 }}>{role.name}</h3>
+      <div style={{ fontSize: 14, display: "grid", gap: 4, marginBottom: 12 }}>
+        <div>{t("roleDetail.inheritsFrom")} <LinkList items={parents} to={(id) => ({ page: "role", roleId: id })} /></div>
+        <div>{t("roleDetail.inheritedBy")} <LinkList items={children} to={(id) => ({ page: "role", roleId: id })} /></div>
+        <div>{t("roleDetail.members")} <LinkList items={members} to={(id) => ({ page: "user", userId: id })} /></div>
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+        <thead>
+          <tr style={{ background: colors.headerBg }}>
+            <th style={cell}>{t("rights.module")}</th>
+            <th style={cell}>{t("rights.actions")}</th>
+            <th style={cell}>{t("rights.queryFields")}</th>
+            <th style={cell}>{t("rights.updateFields")}</th>
+            <th style={cell}>{t("rights.denied")}</th>
+            {!readOnly && <th style={cell} />}
+          </tr>
+        </thead>
+        <tbody>
+          {modules.map((m) => {
+            const access = accessForRoles([roleId], m.id, index);
+            const denied = [
+              ...ACTIONS.filter((a) => access.denied.actions[a].length).map(actionLabel),
+              ...Object.keys(access.denied.visible).map((field) => t("change.query", { field })),
+              ...Object.keys(access.denied.editable).map((field) => t("change.update", { field })),
+            ];
+            return (
+              <tr key={m.id} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                <td style={{ ...cell, fontWeight: 600 }}>{m.name}</td>
+                <td style={cell}><Rights access={access} kind="actions" names={ACTIONS.filter((a) => isAllowed(access, "actions", a))} label={actionLabel} /></td>
+                <td style={cell}><Rights access={access} kind="visible" names={allowedFields(access, "visible")} /></td>
+                <td style={cell}><Rights access={access} kind="editable" names={allowedFields(access, "editable")} /></td>
+                <td style={{ ...cell, color: denied.length ? colors.danger : undefined }}>{denied.join(", ") || t("common.none")}</td>
+                {!readOnly && (
+                  <td style={{ ...cell, textAlign: "right" }}>
+                    <Link to={{ page: "tab", tab: "rolePermissions", filters: defaultMatrixFilters, editor: { kind: "roleFields", roleId, moduleId: m.id } }}>{t("rights.editFields")}</Link>
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div style={{ fontSize: 12, color: colors.textMuted, marginTop: 8 }}>{t("common.inheritedLegend")}</div>
+    </div>
+  );
+}
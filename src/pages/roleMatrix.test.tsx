@@ -0,0 +1,77 @@
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { login } from "../api/client";
+import { defaultFixtures } from "../api/mock/fixtures";
+import { getMockDb, MOCK_PASSWORD, seedMockDb } from "../api/mock/server";
+import { t } from "../lib/i18n";
+import RoleMatrix from "./roleMatrix";
+
+const [alice, , , dave] = defaultFixtures.user;
+
+describe("RoleMatrix against the mock backend", () => {
+  beforeEach(async () => {
+    seedMockDb();
+    window.location.hash = "";
+    await login(alice.name, MOCK_PASSWORD);
+  });
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it("assigns a role from the Assign Roles tab", async () => {
+    render(<RoleMatrix viewer={alice} />);
+    fireEvent.click(await screen.findByRole("button", { name: t("tab.assign") }));
+
+    const cell = await screen.findByRole<HTMLInputElement>("checkbox", { name: t("a11y.assignCell", { user: "Bob", role: "Auditor" }) });
+    expect(cell.checked).toBe(false);
+    fireEvent.click(cell);
+
+    await waitFor(() => expect(getMockDb().userRole).toContainEqual(expect.objectContaining({ userId: 2, roleId: 4 })));
+    await waitFor(() => expect(cell.checked).toBe(true));
+    expect(getMockDb().auditLog).toMatchObject([{ actor: alice.name, entity: "userRole", op: "create", userId: 2, roleId: 4 }]);
+  });
+
+  it("sends quick edits to one permission one after the other, without a false conflict", async () => {
+    render(<RoleMatrix viewer={alice} />);
+    fireEvent.click(await screen.findByRole("button", { name: t("tab.rolePermissions") }));
+
+    const cell = (action: string) => screen.findByRole<HTMLInputElement>("checkbox", { name: t("a11y.cell", { row: "Employee", module: "Sales", action }) });
+    const [create, update] = [await cell(t("action.create")), await cell(t("action.update"))];
+    // the second click goes out while the first write is still in flight
+    fireEvent.click(create);
+    fireEvent.click(update);
+
+    await waitFor(() =>
+      expect(getMockDb().permissions.find((p) => p.roleId === 3 && p.moduleId === 1)?.actions).toEqual(["read", "create", "update"])
+    );
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+
+  it("keeps read-only user cells focusable and inert", async () => {
+    await login(dave.name, MOCK_PASSWORD);
+    render(<RoleMatrix viewer={dave} />);
+
+    const [cell] = await screen.findAllByRole("button", { name: new RegExp(`^${alice.name} – `) });
+    expect(cell.getAttribute("aria-disabled")).toBe("true");
+    expect(cell.hasAttribute("disabled")).toBe(false);
+    expect(cell.hasAttribute("aria-pressed")).toBe(false);
+    expect(cell.getAttribute("tabindex")).toBe("0");
+    fireEvent.click(cell);
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+
+  it("asks before unassigning the only admin and keeps the role when declined", async () => {
+    const confirm = vi.fn(() => false);
+    vi.stubGlobal("confirm", confirm);
+    render(<RoleMatrix viewer={alice} />);
+    fireEvent.click(await screen.findByRole("button", { name: t("tab.assign") }));
+
+    const cell = await screen.findByRole<HTMLInputElement>("checkbox", { name: t("a11y.assignCell", { user: "Alice", role: "Admin" }) });
+    fireEvent.click(cell);
+
+    expect(confirm).toHaveBeenCalledWith(t("matrix.confirmLockout", { permissions: "Permissions", roles: "Roles" }));
+    expect(cell.checked).toBe(true);
+    expect(getMockDb().userRole).toContainEqual(expect.objectContaining({ userId: 1, roleId: 1 }));
+  });
+});
@@ -1,72 +1,164 @@
-import React, { useEffect, useMemo, useState } from "react";
-import { apiGet } from "../api/client";
-
-const ACTIONS = ["read", "create", "update", "delete"] as const;
-type Action = (typeof ACTIONS)[number];
-
-type User = { id: number; name: string };
-type Module = { id: number; name: string; fields?: string[] | string };
-type Permission = {
-  id?: number;
-  roleId: number;
-  moduleId: number;
-  actions: string[];
-  visibleFields?: string[];
-  editableFields?: string[];
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { api, applyPendingChange, ConflictError, describeError, onAuditFailure, upsertPermission, USE_MOCK, watchRemoteChanges } from "../api/client";
+import { ACTIONS, type Action, type Module, type Permission, type Role, type User, type UserRole } from "../api/types";
+import { BulkJobPanel, useBulkJob } from "../components/bulkJob";
+import { confirmPanelAccess } from "../components/confirmPanelAccess";
+import Dialog, { dialogButton, dialogPrimaryButton } from "../components/dialog";
+import MatrixFilterBar from "../components/matrixFilters";
+import Pagination from "../components/pagination";
+import { useRoute } from "../components/route";
+import { colors } from "../components/theme";
+import { ToastList, useToasts } from "../components/toasts";
+import { permissionLists } from "../lib/audit";
+import { changedLists, diffDraft, userRoleKey } from "../lib/draft";
+import { actionLabel, formatDateTime, t } from "../lib/i18n";
+import { defaultMatrixFilters, type MatrixFilters } from "../lib/matrixFilters";
+import { missingPanelModules, panelAccess, PANEL_MODULES } from "../lib/panelAccess";
+import { TABS, type Editor, type Tab } from "../lib/route";
+import { moduleFields } from "../lib/fields";
+import { buildAccessIndex, effectiveAccess, isAllowed, permKey, roleIdsOfUser } from "../lib/permissions";
+import AccessReview from "./accessReview";
+import AssignRolesMatrix from "./assignRolesMatrix";
+import AuditHistory from "./auditHistory";
+import CatalogManager from "./catalogManager";
+import DraftReview from "./draftReview";
+import ImportExport from "./importExport";
+import PermissionDashboard from "./permissionDashboard";
+import PermissionSimulator from "./permissionSimulator";
+import RoleDetail from "./roleDetail";
+import RolePermissionMatrix from "./rolePermissionMatrix";
+import UserDetail from "./userDetail";
+import UserPermissionMatrix from "./userPermissionMatrix";
+
+type CellStatus = "pending" | "error";
+
+// replace (or add / remove with null) the permission of a role/module pair
+const replacePermission = (list: Permission[], key: string, next: Permission | null) => {
+  const rest = list.filter((p) => permKey(p.roleId, p.moduleId) !== key);
+  return next ? [...rest, next] : rest;
 };
-type UserRole = { id?: number; userId: number; roleId: number };
-type Role = { id: number; name: string };
 
-const urlAPi = 'https://node-dummy-roles-and-permissions.onrender.com';
+// The list with a patch applied to one role / module record, created when missing
+const withPatch = (list: Permission[], roleId: number, moduleId: number, patch: Partial<Permission>) => {
+  const existing = list.find((p) => p.roleId === roleId && p.moduleId === moduleId);
+  return replacePermission(list, permKey(roleId, moduleId), existing ? { ...existing, ...patch } : { roleId, moduleId, actions: [], visibleFields: [], editableFields: [], ...patch });
+};
+
+const withUserRole = (list: UserRole[], userId: number, roleId: number, assigned: boolean) => {
+  const rest = list.filter((ur) => ur.userId !== userId || ur.roleId !== roleId);
+  return assigned ? [...rest, { userId, roleId }] : rest;
+};
+
+type FieldSets = { visibleFields: string[]; editableFields: string[] };
+
+const sameFieldSets = (a: FieldSets, b: FieldSets) =>
+  a.visibleFields.length === b.visibleFields.length &&
+  a.editableFields.length === b.editableFields.length &&
+  a.visibleFields.every((f) => b.visibleFields.includes(f)) &&
+  a.editableFields.every((f) => b.editableFields.includes(f));
+
+const emptyFieldsModal = {
+  open: false,
+  userId: null as number | null,
+  moduleId: null as number | null,
+  title: "",
+  userRolesList: [] as Role[],
+  // roleId -> fields stored on the backend / being edited
+  original: {} as Record<number, FieldSets>,
+  drafts: {} as Record<number, FieldSets>,
+  allFields: [] as string[],
+};
 
-export default function RoleMatrix() {
-  const [activeTab, setActiveTab] = useState<"permissions" | "assign">("permissions");
+const emptyActionModal = {
+  open: false,
+  userId: null as number | null,
+  moduleId: null as number | null,
+  action: null as Action | null,
+  // which roles (roleId -> boolean) are selected to enable action
+  selectedRoles: {} as Record<number, boolean>,
+  // user's roles list (for convenience)
+  userRolesList: [] as Role[],
+};
+
+// a permission write refused because another admin changed the record first
+type Conflict = { label: string; roleId: number; moduleId: number; patch: Partial<Permission>; theirs: Permission | null };
+
+// viewer: the signed-in user; what they may do here comes from their own rights in the model
+export default function RoleMatrix({ viewer }: { viewer: User }) {
+  // tab, detail page, open editor and matrix filters all live in the URL (see lib/route)
+  const [route, navigate] = useRoute();
+  const tabRoute = route.page === "tab" ? route : { page: "tab" as const, tab: "permissions" as const, filters: defaultMatrixFilters, editor: null };
+  const filters = tabRoute.filters;
+  // filter edits replace the history entry instead of adding one per keystroke
+  const setFilters = (next: MatrixFilters) => navigate({ ...tabRoute, filters: next }, { replace: true });
+  const setActiveTab = (tab: Tab) => navigate({ page: "tab", tab, filters, editor: null });
+  const openEditor = (editor: Editor) => navigate({ ...tabRoute, editor });
+  const closeEditor = () => navigate({ ...tabRoute, editor: null });
 
   const [users, setUsers] = useState<User[]>([]);
   const [modules, setModules] = useState<Module[]>([]);
   const [permissions, setPermissions] = useState<Permission[]>([]);
   const [userRoles, setUserRoles] = useState<UserRole[]>([]);
   const [roles, setRoles] = useState<Role[]>([]);
+  // full-screen loading only on the first load; later reloads just show "Refreshing..."
   const [loading, setLoading] = useState(true);
-
-  // modal to edit fields (existing)
-  const [fieldsModal, setFieldsModal] = useState({
-    open: false,
-    permId: null as number | null,
-    moduleId: null as number | null,
-    roleId: null as number | null,
-    visibleFields: [] as string[],
-    editableFields: [] as string[],
-    allFields: [] as string[],
-  });
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // when the data was last read from the server (live sync indicator)
+  const [lastSync, setLastSync] = useState<string | null>(null);
+  const { toasts, push: pushToast, dismiss: dismissToast } = useToasts();
+  const bulk = useBulkJob();
+
+  // optimistic writes: status per cell key ("perm:<roleId-moduleId>" / "ur:<userId-roleId>")
+  const [cellStatus, setCellStatus] = useState<Record<string, CellStatus>>({});
+
+  // latest records, so writes fired from stale closures (retry, loops) start from current state
+  const latest = useRef({ permissions: [] as Permission[], userRoles: [] as UserRole[] });
+  // bumped by every write, so a background refresh that raced one is thrown away
+  const writeSeq = useRef(0);
+  // the permissions as the server last confirmed them (loads and saved writes, not optimistic
+  // state): the base each write is merged from
+  const confirmed = useRef(new Map<string, Permission>());
+  // writes to one permission go out one at a time, each on top of what the previous one saved
+  const permQueue = useRef(new Map<string, Promise<unknown>>());
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+
+  // draft mode: permissions/userRoles above are the working copy, `server` is the last loaded snapshot
+  const [draftMode, setDraftMode] = useState(false);
+  const [server, setServer] = useState({ permissions: [] as Permission[], userRoles: [] as UserRole[] });
+  const [applyingDraft, setApplyingDraft] = useState(false);
+
+  // modal to edit fields, per role of the user
+  const [fieldsModal, setFieldsModal] = useState(emptyFieldsModal);
 
   // modal to select role(s) for toggling an action for a user/module
-  const [actionModal, setActionModal] = useState({
-    open: false,
-    userId: null as number | null,
-    moduleId: null as number | null,
-    action: null as Action | null,
-    // which roles (roleId -> boolean) are selected to enable action
-    selectedRoles: {} as Record<number, boolean>,
-    // user's roles list (for convenience)
-    userRolesList: [] as Role[],
-  });
+  const [actionModal, setActionModal] = useState(emptyActionModal);
 
   // Helper: load everything
+  const fetchAll = () => Promise.all([api.users.list(), api.modules.list(), api.permissions.list(), api.userRoles.list(), api.roles.list()]);
+
+  const showData = ([u, m, p, ur, r]: Awaited<ReturnType<typeof fetchAll>>) => {
+    setUsers(u);
+    setModules(m);
+    setPermissions(p);
+    setUserRoles(ur);
+    setServer({ permissions: p, userRoles: ur });
+    confirmed.current = new Map(p.map((x) => [permKey(x.roleId, x.moduleId), x]));
+    setRoles(r);
+    setLastSync(new Date().toISOString());
+  };
+
   const loadAll = async () => {
-    setLoading(true);
-    const [uRes, mRes, pRes, urRes, rRes] = await Promise.all([
-      apiGet("/api/user/"),
-      apiGet("/api/module/"),
-      apiGet("/api/permissions/"),
-      apiGet("/api/userRole/"),
-      apiGet("/api/role/"),
-    ]);
-    setUsers(uRes.data);
-    setModules(mRes.data);
-    setPermissions(pRes.data);
-    setUserRoles(urRes.data);
-    setRoles(rRes.data);
+    setRefreshing(true);
+    try {
+      showData(await fetchAll());
+      setLoadError(null);
+    } catch (e) {
+      // keep showing the data we already have; only the first load blocks the page
+      if (loading || loadError) setLoadError(describeError(e));
+      else pushToast({ kind: "error", message: t("matrix.refreshFailed", { error: describeError(e) }), retry: loadAll });
+    }
+    setRefreshing(false);
     setLoading(false);
   };
 
@@ -74,16 +166,194 @@ export default function RoleMatrix() {
     loadAll();
   }, []);
 
-  // Map roleId-moduleId => permission
-  const permMap = useMemo(() => {
-    const m = new Map<string, Permission>();
-    permissions.forEach((p) => m.set(`${p.roleId}-${p.moduleId}`, p));
-    return m;
-  }, [permissions]);
+  // ---------- Live sync ----------
+  // Pick up other admins' changes in the background. Skipped while this panel has writes in
+  // flight or a draft open: drafts are checked against the server when they are applied.
+  const syncFromServer = async () => {
+    if (loading || loadError || draftMode || applyingDraft || bulk.job?.running || Object.values(cellStatus).includes("pending")) return;
+    const seq = writeSeq.current;
+    try {
+      const data = await fetchAll();
+      if (seq === writeSeq.current) showData(data);
+    } catch {
+      // the next round tries again; explicit reloads report errors
+    }
+  };
+  // the subscription outlives renders, so it calls through a ref to the current closure
+  const sync = useRef(syncFromServer);
+  sync.current = syncFromServer;
+  useEffect(() => watchRemoteChanges(() => sync.current()), []);
+
+  // writes from every tab go through the audited client; say so when their history is missing
+  useEffect(() => {
+    onAuditFailure((e) => pushToast({ kind: "error", key: "auditFailure", message: t("history.recordFailed", { error: describeError(e) }) }));
+    return () => onAuditFailure(null);
+  }, [pushToast]);
+
+  // mock backend only: restore the bundled fixtures
+  const resetMockData = async () => {
+    if (!confirm(t("matrix.confirmReset"))) return;
+    const { seedMockDb } = await import("../api/mock/server");
+    seedMockDb();
+    await loadAll();
+  };
+
+  // ---------- Draft mode ----------
+  const pendingChanges = useMemo(
+    () => (draftMode ? diffDraft(server, { permissions, userRoles }) : []),
+    [draftMode, server, permissions, userRoles]
+  );
+
+  // what the matrices highlight as changed
+  const changedPermKeys = new Set(pendingChanges.filter((c) => c.kind === "permission").map((c) => c.key));
+  const changedUserRoleKeys = new Set(pendingChanges.filter((c) => c.kind === "userRole").map((c) => c.key));
+  const changedUserIds = new Set(
+    pendingChanges.flatMap((c) => (c.kind === "userRole" ? [(c.after ?? c.before)!.userId] : []))
+  );
+  const userModuleChanged = (userId: number, moduleId: number) =>
+    pendingChanges.length > 0 &&
+    (changedUserIds.has(userId) ||
+    Array.from(new Set([...roleIdsOfUser(server.userRoles, userId), ...roleIdsOfUser(userRoles, userId)]))
+      .some((rid) => changedPermKeys.has(permKey(rid, moduleId))));
+
+  const discardDraft = () => {
+    setPermissions(server.permissions);
+    setUserRoles(server.userRoles);
+  };
+
+  const toggleDraftMode = () => {
+    if (!draftMode) {
+      // the draft is diffed against the records as they are when it starts
+      setServer({ permissions, userRoles });
+    } else if (pendingChanges.length > 0) {
+      if (!confirm(t("matrix.confirmLeaveDraft", { count: pendingChanges.length }))) return;
+      discardDraft();
+    }
+    setDraftMode(!draftMode);
+  };
+
+  const applyDraft = async () => {
+    if (!keepsPanelAccess(server, { permissions, userRoles })) return;
+    setApplyingDraft(true);
+    const errors: string[] = [];
+    for (const change of pendingChanges) {
+      try {
+        await applyPendingChange(change);
+      } catch (e) {
+        errors.push(describeError(e));
+      }
+    }
+    setApplyingDraft(false);
+    if (errors.length) pushToast({ kind: "error", message: t("matrix.applyErrors", { count: errors.length, errors: errors.join("; ") }) });
+    else pushToast({ kind: "info", message: t("matrix.applied", { count: pendingChanges.length }) });
+    await loadAll();
+  };
+
+  // ---------- Optimistic writes ----------
+  const setStatus = (key: string, status: CellStatus | null) =>
+    setCellStatus((prev) => {
+      const next = { ...prev };
+      if (status) next[key] = status;
+      else delete next[key];
+      return next;
+    });
+
+  // Run a backend call for an already-applied local change; roll back on failure and either
+  // offer a retry toast, or (retry = null, bulk jobs) rethrow so the job records the failure.
+  // Conflicts with another admin's change go to onConflict instead, when given.
+  const persist = async (
+    statusKey: string,
+    label: string,
+    call: () => Promise<void>,
+    rollback: () => void,
+    retry: (() => void) | null,
+    onConflict?: (e: ConflictError) => void
+  ) => {
+    writeSeq.current++;
+    setStatus(statusKey, "pending");
+    try {
+      await call();
+      setStatus(statusKey, null);
+    } catch (e) {
+      rollback();
+      if (retry && onConflict && e instanceof ConflictError) {
+        setStatus(statusKey, null);
+        onConflict(e);
+        return;
+      }
+      setStatus(statusKey, "error");
+      if (!retry) throw e;
+      pushToast({ kind: "error", message: t("matrix.saveFailed", { label, error: describeError(e) }), retry });
+    }
+  };
+
+  const roleName = (roleId: number) => roles.find((r) => r.id === roleId)?.name ?? `#${roleId}`;
+  const moduleName = (moduleId: number) => modules.find((m) => m.id === moduleId)?.name ?? `#${moduleId}`;
+  const userName = (userId: number) => users.find((u) => u.id === userId)?.name ?? `#${userId}`;
+
+  // asks before records that would leave nobody able to run the panel; drafts are checked when applied
+  type Records = { permissions: Permission[]; userRoles: UserRole[] };
+  const keepsPanelAccess = (before: Records, after: Records) => confirmPanelAccess({ roles, ...before }, { roles, ...after }, modules, users);
+  const confirmRecords = (after: Partial<Records>) => draftMode || keepsPanelAccess(latest.current, { ...latest.current, ...after });
+
+  // Persist a permission change: applied locally first, then sent to the API (skipped in draft mode)
+  const savePermission = async (roleId: number, moduleId: number, patch: Partial<Permission>, bulk = false) => {
+    const key = permKey(roleId, moduleId);
+    const existing = latest.current.permissions.find((p) => permKey(p.roleId, p.moduleId) === key);
+    const optimistic: Permission = existing
+      ? { ...existing, ...patch }
+      : { roleId, moduleId, actions: [], visibleFields: [], editableFields: [], ...patch };
+    // bulk jobs ask once for the whole job
+    if (!bulk && !confirmRecords({ permissions: replacePermission(latest.current.permissions, key, optimistic) })) return;
+    setPermissions((prev) => replacePermission(prev, key, optimistic));
+    if (draftMode) return;
+
+    // merged from the confirmed record, so an earlier write still in flight does not look like someone else's change
+    const writeConfirmed = async () => {
+      const saved = await upsertPermission(confirmed.current.get(key), roleId, moduleId, patch);
+      if (saved) confirmed.current.set(key, saved);
+      return saved;
+    };
+    const label = t("matrix.permissionLabel", { role: roleName(roleId), module: moduleName(moduleId) });
+    await persist(
+      `perm:${key}`,
+      label,
+      async () => {
+        const previous = permQueue.current.get(key) ?? Promise.resolve();
+        const write = previous.then(writeConfirmed, writeConfirmed);
+        permQueue.current.set(key, write);
+        const saved = await write;
+        // keep the server copy (it carries the id of newly created records and merged changes)
+        if (saved) setPermissions((prev) => replacePermission(prev, key, saved));
+      },
+      () => setPermissions((prev) => replacePermission(prev, key, existing ?? null)),
+      bulk ? null : () => savePermission(roleId, moduleId, patch),
+      // show their version and let the admin decide whether to apply the change on top of it
+      (e) => {
+        if (e.current) confirmed.current.set(key, e.current);
+        else confirmed.current.delete(key);
+        setPermissions((prev) => replacePermission(prev, key, e.current));
+        setConflict({ label, roleId, moduleId, patch, theirs: e.current });
+      }
+    );
+  };
+
+  // user -> roles, role/module -> permission, rebuilt only when the records change
+  const accessIndex = useMemo(() => buildAccessIndex({ roles, permissions, userRoles }), [roles, permissions, userRoles]);
+  const permMap = accessIndex.permMap;
+  latest.current = { permissions, userRoles };
+
+  // a user x module cell is pending / failed when a write on one of the user's role permissions is
+  const userModuleStatus = (userId: number, moduleId: number): CellStatus | undefined => {
+    const statuses = userRoleIds(userId).map((rid) => cellStatus[`perm:${permKey(rid, moduleId)}`]);
+    return statuses.includes("pending") ? "pending" : statuses.includes("error") ? "error" : undefined;
+  };
+  const rolePermissionStatus = Object.fromEntries(
+    Object.entries(cellStatus).filter(([k]) => k.startsWith("perm:")).map(([k, v]) => [k.slice(5), v])
+  );
 
   // helper: user -> array of roleIds
-  const userRoleIds = (userId: number) =>
-    userRoles.filter((ur) => ur.userId === userId).map((ur) => ur.roleId);
+  const userRoleIds = (userId: number) => accessIndex.rolesByUser.get(userId) ?? [];
 
   // helper: user -> array of Role objects
   const userRolesObjects = (userId: number) => {
@@ -91,36 +361,55 @@ export default function RoleMatrix() {
     return roles.filter((r) => ids.includes(r.id));
   };
 
-  // CHECKED STATE: a checkbox in matrix is checked if ANY role assigned to the user grants the action
-  const userHasAction = (userId: number, moduleId: number, action: Action) => {
-    const roleIds = userRoleIds(userId);
-    for (const rid of roleIds) {
-      const perm = permMap.get(`${rid}-${moduleId}`);
-      if (perm && perm.actions && perm.actions.includes(action)) return true;
-    }
-    return false;
-  };
-
-  // UNION of visibleFields / editableFields across all user's roles for display
-  const unionFieldsForUserModule = (userId: number, moduleId: number) => {
-    const roleIds = userRoleIds(userId);
-    const visible = new Set<string>();
-    const editable = new Set<string>();
-    roleIds.forEach((rid) => {
-      const p = permMap.get(`${rid}-${moduleId}`);
-      if (!p) return;
-      (p.visibleFields || []).forEach((f: string) => visible.add(f));
-      (p.editableFields || []).forEach((f: string) => editable.add(f));
+  // ---------- Viewer's own rights ----------
+  // computed from the records on the server, so staged draft changes don't lock the viewer out early
+  const viewerAccess = useMemo(
+    () => panelAccess({ roles, ...(draftMode ? server : { permissions, userRoles }) }, modules, viewer.id),
+    [roles, modules, permissions, userRoles, draftMode, server, viewer.id]
+  );
+  const readOnly = !viewerAccess.canEditPermissions;
+  // import and revert touch both permissions and role assignments
+  const bulkWriteBlocked = (verb: string) =>
+    !(viewerAccess.canEditPermissions && viewerAccess.canManageRoles)
+      ? t("matrix.bulkNotAllowed", { verb, permissions: PANEL_MODULES.permissions, roles: PANEL_MODULES.roles })
+      : pendingChanges.length > 0
+      ? t("matrix.bulkDraftPending", { verb })
+      : null;
+  // tabs the viewer may not use fall back to the permissions matrix
+  const hiddenTabs: Tab[] = viewerAccess.canManageRoles ? [] : ["assign", "catalog"];
+  const activeTab = hiddenTabs.includes(tabRoute.tab) ? "permissions" : tabRoute.tab;
+
+  // ---------- Search / filters / pagination ----------
+  const shownModules = useMemo(() => (filters.moduleId === null ? modules : modules.filter((m) => m.id === filters.moduleId)), [modules, filters.moduleId]);
+  const shownActions = filters.action ? [filters.action] : ACTIONS;
+
+  const filteredUsers = useMemo(() => {
+    const q = filters.search.trim().toLowerCase();
+    return users.filter((u) => {
+      if (q && !u.name.toLowerCase().includes(q)) return false;
+      if (filters.roleId !== null && !(accessIndex.rolesByUser.get(u.id) ?? []).includes(filters.roleId)) return false;
+      // "can <action>" on at least one of the shown modules (users x modules tab only)
+      if (filters.action && activeTab === "permissions") {
+        const action = filters.action;
+        const model = { roles, permissions, userRoles };
+        return shownModules.some((m) => isAllowed(effectiveAccess(model, u.id, m.id, accessIndex), "actions", action));
+      }
+      return true;
     });
-    return { visible: Array.from(visible), editable: Array.from(editable) };
-  };
+  }, [users, filters, accessIndex, activeTab, shownModules, modules, roles, permissions, userRoles]);
+
+  // clamp the page when filters shrink the result
+  const page = Math.min(filters.page, Math.max(0, Math.ceil(filteredUsers.length / filters.pageSize) - 1));
+  const pageUsers = filteredUsers.slice(page * filters.pageSize, (page + 1) * filters.pageSize);
 
   // When user clicks a checkbox in matrix, open modal letting them choose in which role(s) to toggle this action
-  const openActionModal = (userId: number, moduleId: number, action: Action) => {
+  // (opened from the URL, see the editor effect below)
+  const showActionModal = (userId: number, moduleId: number, action: Action) => {
     const userRolesObjs = userRolesObjects(userId);
     if (userRolesObjs.length === 0) {
       // nothing to edit — user has no roles
-      alert("User has no roles assigned. Assign a role first.");
+      alert(t("matrix.noRoles"));
+      navigate({ ...tabRoute, editor: null }, { replace: true });
       return;
     }
 
@@ -151,343 +440,571 @@ export default function RoleMatrix() {
       enabled: v,
     }));
 
+    const moduleId = actionModal.moduleId;
+    const writes: Promise<void>[] = [];
+
     // For each role, check current permission and update/create accordingly
     for (const { roleId, enabled } of roleEntries) {
-      const key = `${roleId}-${actionModal.moduleId}`;
-      const perm = permMap.get(`${roleId}-${actionModal.moduleId}`);
-
-      if (!perm) {
-        // if enabled -> create new permission with this action
-        if (enabled) {
-          const payload: Permission = {
-            roleId,
-            moduleId: Number(actionModal.moduleId),
-            actions: [targetAction],
-            visibleFields: [],
-            editableFields: [],
-          };
-          try {
-            await fetch(urlAPi+"/api/permissions", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify(payload),
-            });
-          } catch (e) {
-            console.error(e);
-          }
-        }
-        // if disabled and no perm -> nothing to do
-      } else {
-        // perm exists -> update actions array based on enabled
-        const has = perm.actions.includes(targetAction);
-        let newActions = perm.actions.slice();
-        if (enabled && !has) newActions.push(targetAction);
-        if (!enabled && has) newActions = newActions.filter((a) => a !== targetAction);
-
-        // call PUT
-        try {
-          await fetch(`${urlAPi}/api/permissions/${perm.id}`, {
-            method: "PUT",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ ...perm, actions: newActions }),
-          });
-        } catch (e) {
-          console.error(e);
-        }
-      }
+      const perm = permMap.get(permKey(roleId, actionModal.moduleId));
+      const current = perm?.actions ?? [];
+      const has = current.includes(targetAction);
+      // nothing to do when the role already matches the selection
+      if (enabled === has) continue;
+
+      const newActions = enabled ? [...current, targetAction] : current.filter((a) => a !== targetAction);
+      writes.push(savePermission(roleId, moduleId, { actions: newActions }));
     }
 
-    // reload all data to keep sync
-    await loadAll();
-    setActionModal({
-      open: false,
-      userId: null,
-      moduleId: null,
-      action: null,
-      selectedRoles: {},
-      userRolesList: [],
-    });
+    // changes are already visible; failures roll back and raise a toast
+    closeEditor();
+    await Promise.all(writes);
   };
 
-  // ---------- Fields editor (existing) ----------
-  const openFieldsEditor = (userId: number, moduleObj: Module) => {
-    const rel = userRoles.find((ur) => ur.userId === userId);
-    if (!rel) {
-      alert("Assign a role to the user first to edit fields for that role/module.");
+  // ---------- Fields editor ----------
+  // One column per user role so it is explicit which role's permission gets edited
+  const showFieldsEditor = (userId: number, moduleObj: Module) => {
+    const rolesList = userRolesObjects(userId);
+    if (rolesList.length === 0) {
+      alert(t("matrix.noRolesFields"));
+      navigate({ ...tabRoute, editor: null }, { replace: true });
       return;
     }
-    const perm = permMap.get(`${rel.roleId}-${moduleObj.id}`) || null;
 
-    // normalize module fields
-    let allFields: string[] = [];
-    if (Array.isArray(moduleObj.fields)) allFields = moduleObj.fields;
-    else {
-      try {
-        allFields = JSON.parse((moduleObj.fields as any) || "[]");
-      } catch {
-        allFields = [];
-      }
-    }
+    const original: Record<number, FieldSets> = {};
+    rolesList.forEach((r) => {
+      const perm = permMap.get(permKey(r.id, moduleObj.id));
+      original[r.id] = { visibleFields: perm?.visibleFields ?? [], editableFields: perm?.editableFields ?? [] };
+    });
+
+    // include fields a permission still references even if the module no longer declares them
+    const allFields = Array.from(new Set([
+      ...moduleFields(moduleObj),
+      ...Object.values(original).flatMap((o) => [...o.visibleFields, ...o.editableFields]),
+    ]));
 
     setFieldsModal({
       open: true,
-      permId: perm?.id ?? null,
+      userId,
       moduleId: moduleObj.id,
-      roleId: rel.roleId,
-      visibleFields: perm?.visibleFields ?? [],
-      editableFields: perm?.editableFields ?? [],
+      title: `${users.find((u) => u.id === userId)?.name ?? ""} / ${moduleObj.name}`,
+      userRolesList: rolesList,
+      original,
+      drafts: original,
       allFields,
     });
   };
 
+  const toggleDraftField = (roleId: number, kind: keyof FieldSets, field: string) =>
+    setFieldsModal((m) => {
+      const list = m.drafts[roleId][kind];
+      const next = list.includes(field) ? list.filter((x) => x !== field) : [...list, field];
+      return { ...m, drafts: { ...m.drafts, [roleId]: { ...m.drafts[roleId], [kind]: next } } };
+    });
+
+  // roles whose draft differs from what is stored
+  const changedFieldRoles = fieldsModal.userRolesList.filter(
+    (r) => !sameFieldSets(fieldsModal.original[r.id], fieldsModal.drafts[r.id])
+  );
+
+  const closeFieldsModal = closeEditor;
+
   const saveFieldsModal = async () => {
-    if (!fieldsModal.moduleId || !fieldsModal.roleId) {
-      setFieldsModal({ ...fieldsModal, open: false });
+    if (!fieldsModal.moduleId || changedFieldRoles.length === 0) {
+      closeFieldsModal();
       return;
     }
-    const existing = permissions.find(
-      (p) => p.roleId === fieldsModal.roleId && p.moduleId === fieldsModal.moduleId
-    );
-    if (existing) {
-      await fetch(`${urlAPi}/api/permissions/${existing.id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ...existing,
-          visibleFields: fieldsModal.visibleFields,
-          editableFields: fieldsModal.editableFields,
-        }),
-      });
-    } else {
-      // create
-      await fetch(urlAPi+"/api/permissions", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          roleId: fieldsModal.roleId,
-          moduleId: fieldsModal.moduleId,
-          actions: [],
-          visibleFields: fieldsModal.visibleFields,
-          editableFields: fieldsModal.editableFields,
-        }),
-      });
-    }
-    await loadAll();
-    setFieldsModal({ ...fieldsModal, open: false });
+    const { moduleId, original, drafts } = fieldsModal;
+    closeFieldsModal();
+    await Promise.all(changedFieldRoles.map((r) => savePermission(r.id, moduleId, changedLists(original[r.id], drafts[r.id]))));
   };
 
-  // ---------- Assign Roles tab logic (simple local update + backend) ----------
-  const toggleRoleForUser = async (userId: number, roleId: number) => {
-    const existing = userRoles.find((ur) => ur.userId === userId && ur.roleId === roleId);
+  // open / close the editors to match the URL (clicks, deep links, back / forward);
+  // read-only viewers never get them
+  const editor = route.page === "tab" && !readOnly ? route.editor : null;
+  const editorKey = editor ? JSON.stringify(editor) : "";
+  useEffect(() => {
+    if (loading) return;
+    if (editor?.kind === "action") showActionModal(editor.userId, editor.moduleId, editor.action);
+    else setActionModal(emptyActionModal);
+
+    const moduleObj = editor?.kind === "fields" ? modules.find((m) => m.id === editor.moduleId) : undefined;
+    if (editor?.kind === "fields" && moduleObj) showFieldsEditor(editor.userId, moduleObj);
+    else setFieldsModal(emptyFieldsModal);
+  }, [loading, editorKey]);
+
+  // ---------- Assign Roles tab logic (optimistic local update + backend) ----------
+  const setUserRole = async (userId: number, roleId: number, assigned: boolean, bulk = false) => {
+    const key = userRoleKey(userId, roleId);
+    const existing = latest.current.userRoles.find((ur) => ur.userId === userId && ur.roleId === roleId);
+    const without = (list: UserRole[]) => list.filter((u) => !(u.userId === userId && u.roleId === roleId));
+    if (!!existing === assigned) return;
+    if (!bulk && !confirmRecords({ userRoles: withUserRole(latest.current.userRoles, userId, roleId, assigned) })) return;
+
+    setUserRoles((prev) => (existing ? without(prev) : [...prev, { userId, roleId }]));
+    if (draftMode) return;
+
+    const label = t("matrix.roleForUser", { role: roleName(roleId), user: userName(userId) });
+    const retry = bulk ? null : () => setUserRole(userId, roleId, assigned);
     if (existing) {
-      // delete relationship if backend supports DELETE /api/userRole/:id
-      if (existing.id) {
-        await fetch(`${urlAPi}/api/userRole/${existing.id}`, {
-          method: "DELETE",
-        });
-        setUserRoles((prev) => prev.filter((u) => u.id !== existing.id));
-      }
+      await persist(
+        `ur:${key}`,
+        label,
+        async () => {
+          // delete relationship if backend supports DELETE /api/userRole/:id
+          if (existing.id) await api.userRoles.remove(existing.id);
+        },
+        () => setUserRoles((prev) => [...without(prev), existing]),
+        retry
+      );
     } else {
-      // create
-      const res = await fetch(urlAPi+"/api/userRole", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, roleId }),
-      });
-      const json = await res.json();
-      setUserRoles((prev) => [...prev, json.data]);
+      await persist(
+        `ur:${key}`,
+        label,
+        async () => {
+          const created = await api.userRoles.create({ userId, roleId });
+          if (created?.id) setUserRoles((prev) => [...without(prev), created]);
+          // backend answered without the record: reload to pick up its id
+          else loadAll();
+        },
+        () => setUserRoles(without),
+        retry
+      );
     }
-    // reload permissions because roles changed
-    await loadAll();
   };
 
-  if (loading) return <div style={{ padding: 20 }}>Loading permissions...</div>;
+  const toggleRoleForUser = (userId: number, roleId: number) =>
+    setUserRole(userId, roleId, !userRoleIds(userId).includes(roleId));
+
+  // ---------- Bulk operations ----------
+  const bulkSetRoles = (userIds: number[], roleIds: number[], assigned: boolean) => {
+    const after = userIds.reduce((list, u) => roleIds.reduce((l, r) => withUserRole(l, u, r, assigned), list), latest.current.userRoles);
+    if (!confirmRecords({ userRoles: after })) return;
+    return bulk.run(
+      t(assigned ? "matrix.jobAssign" : "matrix.jobRevoke", { roles: roleIds.length, users: userIds.length }),
+      userIds.flatMap((u) =>
+        roleIds.map((r) => ({ label: t("matrix.itemRoleForUser", { role: roleName(r), user: userName(u) }), run: () => setUserRole(u, r, assigned, true) }))
+      )
+    );
+  };
+
+  // the target users end up with exactly the source user's roles
+  const cloneUserRoles = (sourceUserId: number, targetUserIds: number[]) => {
+    const sourceRoles = userRoleIds(sourceUserId);
+    const targets = targetUserIds.filter((u) => u !== sourceUserId);
+    const after = targets.reduce((list, u) => roles.reduce((l, r) => withUserRole(l, u, r.id, sourceRoles.includes(r.id)), list), latest.current.userRoles);
+    if (!confirmRecords({ userRoles: after })) return;
+    return bulk.run(
+      t("matrix.jobClone", { source: userName(sourceUserId), users: targetUserIds.length }),
+      targets.flatMap((u) =>
+        roles.map((r) => ({
+          label: t("matrix.itemRoleForUser", { role: roleName(r.id), user: userName(u) }),
+          run: () => setUserRole(u, r.id, sourceRoles.includes(r.id), true),
+        }))
+      )
+    );
+  };
+
+  const actionsWith = (list: Permission[], roleId: number, moduleId: number, action: Action, grant: boolean) => {
+    const current = list.find((p) => p.roleId === roleId && p.moduleId === moduleId)?.actions ?? [];
+    return grant ? Array.from(new Set([...current, action])) : current.filter((a) => a !== action);
+  };
+
+  const bulkSetAction = (roleIds: number[], moduleIds: number[], action: Action, grant: boolean) => {
+    const after = roleIds.reduce(
+      (list, r) => moduleIds.reduce((l, m) => withPatch(l, r, m, { actions: actionsWith(l, r, m, action, grant) }), list),
+      latest.current.permissions
+    );
+    if (!confirmRecords({ permissions: after })) return;
+    return bulk.run(
+      t(grant ? "matrix.jobGrant" : "matrix.jobRevokeAction", { action: actionLabel(action), modules: moduleIds.length, roles: roleIds.length }),
+      roleIds.flatMap((r) =>
+        moduleIds.map((m) => ({
+          label: `${roleName(r)} / ${moduleName(m)}`,
+          run: async () => {
+            const current = latest.current.permissions.find((p) => p.roleId === r && p.moduleId === m)?.actions ?? [];
+            if (current.includes(action) === grant) return;
+            const actions = grant ? [...current, action] : current.filter((a) => a !== action);
+            await savePermission(r, m, { actions }, true);
+          },
+        }))
+      )
+    );
+  };
+
+  // copy (create or overwrite) every Permission record of one role onto another
+  const copyRolePermissions = (fromRoleId: number, toRoleId: number) => {
+    const copies = latest.current.permissions
+      .filter((p) => p.roleId === fromRoleId)
+      .map((p) => ({
+        moduleId: p.moduleId,
+        patch: {
+          actions: [...(p.actions || [])],
+          visibleFields: [...(p.visibleFields || [])],
+          editableFields: [...(p.editableFields || [])],
+          deniedActions: [...(p.deniedActions || [])],
+          deniedVisibleFields: [...(p.deniedVisibleFields || [])],
+          deniedEditableFields: [...(p.deniedEditableFields || [])],
+        },
+      }));
+    const after = copies.reduce((list, c) => withPatch(list, toRoleId, c.moduleId, c.patch), latest.current.permissions);
+    if (!confirmRecords({ permissions: after })) return;
+    return bulk.run(
+      t("matrix.jobCopy", { from: roleName(fromRoleId), to: roleName(toRoleId) }),
+      copies.map((c) => ({
+        label: `${roleName(toRoleId)} / ${moduleName(c.moduleId)}`,
+        run: () => savePermission(toRoleId, c.moduleId, c.patch, true),
+      }))
+    );
+  };
+
+  if (loading) return <div style={{ padding: 20 }}>{t("matrix.loading")}</div>;
+  if (loadError)
+    return (
+      <div style={{ padding: 20 }}>
+        <div style={{ color: colors.danger, marginBottom: 10 }}>{t("matrix.loadFailed", { error: loadError })}</div>
+        <button onClick={loadAll}>{t("common.retry")}</button>
+      </div>
+    );
+
+  if (!viewerAccess.canView)
+    return (
+      <div style={{ padding: 20 }}>
+        {missingPanelModules(modules).length
+          ? t("matrix.panelModulesMissing", { modules: missingPanelModules(modules).join(", ") })
+          : t("matrix.noAccess", { module: PANEL_MODULES.permissions })}
+      </div>
+    );
 
   // UI styles (concise)
-  const containerStyle: React.CSSProperties = { padding: 20, fontFamily: "Inter, Arial", minHeight: "100vh", background: "#f6f8fb" };
-  const tabBtn: React.CSSProperties = { padding: "10px 14px", marginRight: 8, borderRadius: 8, border: "1px solid #d1d5db", background: "#fff", cursor: "pointer" };
-  const activeTabBtn: React.CSSProperties = { ...tabBtn, background: "#111827", color: "#fff", border: "1px solid #111827" };
+  const containerStyle: React.CSSProperties = { padding: 20, fontFamily: "Inter, Arial", minHeight: "100vh", background: colors.pageBg };
+  const tabBtn: React.CSSProperties = { padding: "10px 14px", marginRight: 8, borderRadius: 8, border: `1px solid ${colors.controlBorder}`, background: colors.surface, cursor: "pointer" };
+  const activeTabBtn: React.CSSProperties = { ...tabBtn, background: colors.primary, color: colors.onDark, border: `1px solid ${colors.primary}` };
 
   return (
     <div style={containerStyle}>
-      <h2 style={{ marginBottom: 12 }}>Authorization Management</h2>
+      <h2 style={{ marginBottom: 12 }}>
+        {t("matrix.title")}
+        {USE_MOCK && (
+          <span style={{ marginLeft: 12, fontSize: 12, fontWeight: 400, color: colors.warning }}>
+            {t("matrix.mockBackend")} · <button onClick={resetMockData} style={{ fontSize: 12 }}>{t("matrix.resetData")}</button>
+          </span>
+        )}
+        {refreshing ? (
+          <span style={{ marginLeft: 12, fontSize: 12, fontWeight: 400, color: colors.textMuted }}>{t("matrix.refreshing")}</span>
+        ) : (
+          lastSync && (
+            <span style={{ marginLeft: 12, fontSize: 12, fontWeight: 400, color: colors.textMuted }}>
+              {draftMode ? t("sync.paused") : t("sync.live", { time: formatDateTime(lastSync) })}
+            </span>
+          )
+        )}
+      </h2>
+
+      {readOnly && !viewerAccess.canManageRoles ? (
+        <div style={{ marginBottom: 12, fontSize: 14, color: colors.warning }}>{t("matrix.readOnly")}</div>
+      ) : (
+        <div style={{ marginBottom: 12 }}>
+          <label style={{ fontSize: 14, cursor: "pointer" }}>
+            <input type="checkbox" checked={draftMode} onChange={toggleDraftMode} /> {t("matrix.draftMode")}
+          </label>
+          {readOnly && <span style={{ marginLeft: 12, fontSize: 13, color: colors.warning }}>{t("matrix.permissionsReadOnly")}</span>}
+        </div>
+      )}
+
+      {draftMode && (
+        <DraftReview
+          changes={pendingChanges}
+          users={users}
+          roles={roles}
+          modules={modules}
+          applying={applyingDraft}
+          onApply={applyDraft}
+          onDiscard={discardDraft}
+        />
+      )}
+
+      {bulk.job && <BulkJobPanel job={bulk.job} onClose={bulk.clear} />}
 
       <div style={{ marginBottom: 16 }}>
-        <button style={activeTab === "permissions" ? activeTabBtn : tabBtn} onClick={() => setActiveTab("permissions")}>Permissions</button>
-        <button style={activeTab === "assign" ? activeTabBtn : tabBtn} onClick={() => setActiveTab("assign")}>Assign Roles</button>
+        {TABS.filter((tab) => !hiddenTabs.includes(tab)).map((tab) => (
+          <button key={tab} style={route.page === "tab" && activeTab === tab ? activeTabBtn : tabBtn} onClick={() => setActiveTab(tab)}>
+            {t(`tab.${tab}`)}
+          </button>
+        ))}
       </div>
 
-      {activeTab === "permissions" ? (
+      {route.page === "user" ? (
+        <UserDetail userId={route.userId} users={users} roles={roles} modules={modules} model={{ roles, permissions, userRoles }} index={accessIndex} readOnly={readOnly} />
+      ) : route.page === "role" ? (
+        <RoleDetail roleId={route.roleId} users={users} roles={roles} modules={modules} index={accessIndex} readOnly={readOnly} />
+      ) : activeTab === "permissions" ? (
         /* Permissions matrix: users x modules */
-        <div style={{ background: "#fff", padding: 12, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" }}>
-          <table style={{ width: "100%", borderCollapse: "collapse" }}>
-            <thead>
-              <tr style={{ background: "#f3f4f6" }}>
-                <th style={{ textAlign: "left", padding: 12 }}>User</th>
-                {modules.map((m) => <th key={m.id} style={{ padding: 12, textAlign: "center" }}>{m.name}</th>)}
-              </tr>
-            </thead>
-
-            <tbody>
-              {users.map((u) => (
-                <tr key={u.id} style={{ borderTop: "1px solid #eee" }}>
-                  <td style={{ padding: 12, width: 220, background: "#fafafa", fontWeight: 600 }}>
-                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
-                      <div>
-                        <div>{u.name}</div>
-                        <div style={{ fontSize: 12, color: "#6b7280" }}>
-                          Roles: {userRoleIds(u.id).map((rid) => roles.find(r => r.id === rid)?.name).filter(Boolean).join(", ") || "None"}
-                        </div>
-                      </div>
-                    </div>
-                  </td>
-
-                  {modules.map((m) => {
-                    const { visible, editable } = unionFieldsForUserModule(u.id, m.id);
-                    return (
-                      <td key={m.id} style={{ padding: 12, verticalAlign: "top" }}>
-                        {/* actions: checkbox shows union result; click opens role-selection modal */}
-                        <div style={{ display: "flex", gap: 10, justifyContent: "center", flexWrap: "wrap", marginBottom: 8 }}>
-                          {ACTIONS.map((a) => (
-                            <label key={a} style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer", fontSize: 13 }}>
-                              <input
-                                type="checkbox"
-                                checked={userHasAction(u.id, m.id, a)}
-                                readOnly
-                                onClick={() => openActionModal(u.id, m.id, a)}
-                                title="Click to change which role provides this action"
-                              />
-                              <span style={{ textTransform: "capitalize" }}>{a}</span>
-                            </label>
-                          ))}
-                        </div>
-
-                        <div style={{ fontSize: 12, color: "#374151", textAlign: "left" }}>
-                          <div><strong>Allowed query fields:</strong> {visible.length ? visible.join(", ") : "None"}</div>
-                          <div style={{ marginTop: 6 }}><strong>Allowed update fields:</strong> {editable.length ? editable.join(", ") : "None"}</div>
-                        </div>
-
-                        <div style={{ textAlign: "center", marginTop: 8 }}>
-                          <button
-                            onClick={() => openFieldsEditor(u.id, m)}
-                            style={{ padding: "6px 10px", borderRadius: 6, border: "none", background: "#2563eb", color: "white", cursor: "pointer" }}
-                          >
-                            Edit fields
-                          </button>
-                        </div>
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+        <>
+          <MatrixFilterBar filters={filters} roles={roles} modules={modules} onChange={setFilters} />
+          <UserPermissionMatrix
+            users={pageUsers}
+            modules={shownModules}
+            actions={shownActions}
+            model={{ roles, permissions, userRoles }}
+            index={accessIndex}
+            isChanged={userModuleChanged}
+            statusOf={userModuleStatus}
+            readOnly={readOnly}
+            onActionClick={(userId, moduleId, action) => openEditor({ kind: "action", userId, moduleId, action })}
+            onEditFields={(userId, moduleObj) => openEditor({ kind: "fields", userId, moduleId: moduleObj.id })}
+          />
+          <Pagination total={filteredUsers.length} page={page} pageSize={filters.pageSize} onChange={(p, size) => setFilters({ ...filters, page: p, pageSize: size })} />
+        </>
+      ) : activeTab === "rolePermissions" ? (
+        /* Permissions matrix: roles x modules */
+        <RolePermissionMatrix
+          roles={roles}
+          modules={modules}
+          permissions={permissions}
+          changedKeys={changedPermKeys}
+          cellStatus={rolePermissionStatus}
+          onSavePermission={savePermission}
+          onBulkSetAction={bulkSetAction}
+          onCopyRole={copyRolePermissions}
+          busy={!!bulk.job?.running}
+          readOnly={readOnly}
+          fieldsEditor={editor?.kind === "roleFields" ? editor : null}
+          onOpenFieldsEditor={(roleId, moduleId) => openEditor({ kind: "roleFields", roleId, moduleId })}
+          onCloseFieldsEditor={closeEditor}
+        />
+      ) : activeTab === "catalog" ? (
+        /* Roles / Users / Modules CRUD */
+        pendingChanges.length > 0 ? (
+          <div style={{ background: colors.surface, padding: 16, borderRadius: 10 }}>
+            {t("matrix.catalogDraftPending")}
+          </div>
+        ) : (
+          <CatalogManager
+            users={users}
+            roles={roles}
+            modules={modules}
+            permissions={permissions}
+            userRoles={userRoles}
+            onChanged={loadAll}
+          />
+        )
+      ) : activeTab === "transfer" ? (
+        /* Import / export of the authorization model */
+        <ImportExport
+          users={users}
+          roles={roles}
+          modules={modules}
+          permissions={permissions}
+          userRoles={userRoles}
+          importBlockedReason={bulkWriteBlocked(t("matrix.importing"))}
+          onChanged={loadAll}
+        />
+      ) : activeTab === "history" ? (
+        /* Audit log of permission / assignment changes */
+        <AuditHistory
+          users={users}
+          roles={roles}
+          modules={modules}
+          permissions={permissions}
+          userRoles={userRoles}
+          revertBlockedReason={bulkWriteBlocked(t("matrix.reverting"))}
+          onChanged={loadAll}
+        />
+      ) : activeTab === "simulator" ? (
+        /* Effective-permission simulator */
+        <PermissionSimulator users={users} roles={roles} modules={modules} permissions={permissions} userRoles={userRoles} />
+      ) : activeTab === "review" ? (
+        /* Access review campaigns, on the saved records rather than a staged draft */
+        <AccessReview reviewer={viewer} canReview={viewerAccess.canManageRoles} users={users} roles={roles} modules={modules} {...(draftMode ? server : { permissions, userRoles })} />
+      ) : activeTab === "dashboard" ? (
+        /* Risky grants and unused / duplicate parts of the model */
+        <PermissionDashboard users={users} roles={roles} modules={modules} {...(draftMode ? server : { permissions, userRoles })} />
       ) : (
         /* Assign Roles Tab */
-        <div style={{ background: "#fff", padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" }}>
-          <h3 style={{ marginTop: 0 }}>Assign Roles to Users</h3>
-          <table style={{ width: "100%", borderCollapse: "collapse" }}>
-            <thead>
-              <tr style={{ background: "#f3f4f6" }}>
-                <th style={{ padding: 12, textAlign: "left" }}>User</th>
-                {roles.map((r) => <th key={r.id} style={{ padding: 12, textAlign: "center" }}>{r.name}</th>)}
-              </tr>
-            </thead>
-            <tbody>
-              {users.map((u) => (
-                <tr key={u.id} style={{ borderTop: "1px solid #eee" }}>
-                  <td style={{ padding: 12, fontWeight: 600 }}>{u.name}</td>
-                  {roles.map((r) => {
-                    const has = !!userRoles.find((ur) => ur.userId === u.id && ur.roleId === r.id);
-                    return (
-                      <td key={r.id} style={{ padding: 12, textAlign: "center" }}>
-                        <input type="checkbox" checked={has} onChange={() => toggleRoleForUser(u.id, r.id)} />
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))}
-            </tbody>
-          </table>
+        <div style={{ background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" }}>
+          <h3 style={{ marginTop: 0 }}>{t("matrix.assignTitle")}</h3>
+          <MatrixFilterBar filters={filters} roles={roles} modules={modules} showModuleAndAction={false} onChange={setFilters} />
+          <AssignRolesMatrix
+            users={pageUsers}
+            allUsers={users}
+            roles={roles}
+            hasRole={(u, r) => userRoleIds(u).includes(r)}
+            isChanged={(u, r) => changedUserRoleKeys.has(userRoleKey(u, r))}
+            statusOf={(u, r) => cellStatus[`ur:${userRoleKey(u, r)}`]}
+            onToggle={toggleRoleForUser}
+            onBulkSetRoles={bulkSetRoles}
+            onCloneRoles={cloneUserRoles}
+            busy={!!bulk.job?.running}
+          />
+          <Pagination total={filteredUsers.length} page={page} pageSize={filters.pageSize} onChange={(p, size) => setFilters({ ...filters, page: p, pageSize: size })} />
         </div>
       )}
 
       {/* ACTIONS MODAL (choose roles that should have this action for the user/module) */}
       {actionModal.open && (
-        <div style={{
-          position: "fixed", inset: 0, background: "rgba(0,0,0,0.45)",
-          display: "flex", alignItems: "center", justifyContent: "center", zIndex: 3000
-        }}>
-          <div style={{ background: "white", padding: 20, borderRadius: 10, width: 420 }}>
-            <h3 style={{ marginTop: 0 }}>Select roles to grant action: <span style={{ color: "#111827" }}>{actionModal.action}</span></h3>
-
-            <div style={{ marginTop: 10 }}>
-              {actionModal.userRolesList.map((r) => (
-                <label key={r.id} style={{ display: "block", marginBottom: 8 }}>
-                  <input
-                    type="checkbox"
-                    checked={!!actionModal.selectedRoles[r.id]}
-                    onChange={(e) => setActionModal((m) => ({ ...m, selectedRoles: { ...m.selectedRoles, [r.id]: e.target.checked } }))}
-                  />{" "}
-                  {r.name}
-                </label>
-              ))}
-            </div>
-
-            <div style={{ textAlign: "right", marginTop: 14 }}>
-              <button onClick={() => setActionModal({ open: false, userId: null, moduleId: null, action: null, selectedRoles: {}, userRolesList: [] })} style={{ marginRight: 8, padding: "8px 12px", borderRadius: 6 }}>Cancel</button>
-              <button onClick={applyActionModal} style={{ padding: "8px 12px", borderRadius: 6, background: "#111827", color: "#fff", border: "none" }}>Apply</button>
-            </div>
-          </div>
-        </div>
+        <Dialog
+          title={`${t("matrix.selectRolesFor")} ${actionModal.action ? actionLabel(actionModal.action) : ""}`}
+          onClose={closeEditor}
+          width={420}
+          footer={
+            <>
+              <button onClick={closeEditor} style={dialogButton}>{t("common.cancel")}</button>
+              <button onClick={applyActionModal} style={dialogPrimaryButton}>{t("matrix.apply")}</button>
+            </>
+          }
+        >
+          <fieldset style={{ border: "none", padding: 0, margin: "10px 0 0" }}>
+            <legend style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 8 }}>{t("a11y.cell", { row: userName(actionModal.userId!), module: moduleName(actionModal.moduleId!), action: actionLabel(actionModal.action!) })}</legend>
+            {actionModal.userRolesList.map((r) => (
+              <label key={r.id} style={{ display: "block", marginBottom: 8 }}>
+                <input
+                  type="checkbox"
+                  checked={!!actionModal.selectedRoles[r.id]}
+                  onChange={(e) => setActionModal((m) => ({ ...m, selectedRoles: { ...m.selectedRoles, [r.id]: e.target.checked } }))}
+                />{" "}
+                {r.name}
+              </label>
+            ))}
+          </fieldset>
+        </Dialog>
       )}
 
-      {/* FIELDS EDITOR MODAL */}
+      {/* FIELDS EDITOR MODAL (one column per role of the user + inherited union) */}
       {fieldsModal.open && (
-        <div style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.45)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 3000 }}>
-          <div style={{ background: "white", padding: 22, borderRadius: 10, width: 520 }}>
-            <h3 style={{ marginTop: 0 }}>Edit fields for role/module</h3>
-
-            <div style={{ marginTop: 10 }}>
-              <strong>Allowed query fields</strong>
-              <div style={{ marginTop: 8 }}>
-                {fieldsModal.allFields.map((f) => (
-                  <label key={f} style={{ display: "block", marginBottom: 6 }}>
-                    <input
-                      type="checkbox"
-                      checked={fieldsModal.visibleFields.includes(f)}
-                      onChange={() => setFieldsModal((m) => ({ ...m, visibleFields: m.visibleFields.includes(f) ? m.visibleFields.filter(x => x !== f) : [...m.visibleFields, f] }))}
-                    />{" "}
-                    {f}
-                  </label>
-                ))}
-              </div>
-            </div>
-
-            <div style={{ marginTop: 12 }}>
-              <strong>Allowed update fields</strong>
-              <div style={{ marginTop: 8 }}>
-                {fieldsModal.allFields.map((f) => (
-                  <label key={f} style={{ display: "block", marginBottom: 6 }}>
-                    <input
-                      type="checkbox"
-                      checked={fieldsModal.editableFields.includes(f)}
-                      onChange={() => setFieldsModal((m) => ({ ...m, editableFields: m.editableFields.includes(f) ? m.editableFields.filter(x => x !== f) : [...m.editableFields, f] }))}
-                    />{" "}
-                    {f}
-                  </label>
+        <Dialog
+          title={`${t("rights.editFields")}: ${fieldsModal.title}`}
+          onClose={closeFieldsModal}
+          minWidth={520}
+          footer={
+            <>
+              <button onClick={closeFieldsModal} style={dialogButton}>{t("common.cancel")}</button>
+              <button onClick={saveFieldsModal} disabled={changedFieldRoles.length === 0} style={dialogPrimaryButton}>{t("common.save")}</button>
+            </>
+          }
+        >
+          <div style={{ fontSize: 12, color: colors.textMuted, marginBottom: 10 }}>
+            {t("matrix.fieldsHelp")}
+          </div>
+
+          <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+            <thead>
+              <tr style={{ background: colors.headerBg }}>
+                <th style={{ padding: 8, textAlign: "left" }}>{t("matrix.field")}</th>
+                {fieldsModal.userRolesList.map((r) => (
+                  <th key={r.id} style={{ padding: 8, textAlign: "center", color: changedFieldRoles.includes(r) ? colors.caution : undefined }}>
+                    {r.name}{changedFieldRoles.includes(r) ? " *" : ""}
+                  </th>
                 ))}
-              </div>
-            </div>
+                <th style={{ padding: 8, textAlign: "center", color: colors.textMuted }}>{t("matrix.inheritedUnion")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fieldsModal.allFields.map((f) => {
+                const drafts = fieldsModal.userRolesList.map((r) => fieldsModal.drafts[r.id]);
+                const unionQ = drafts.some((d) => d.visibleFields.includes(f));
+                const unionU = drafts.some((d) => d.editableFields.includes(f));
+                // deny rules of any of the roles win over the union (edited in the Role Permissions tab)
+                const rolePerms = fieldsModal.userRolesList.map((r) => permMap.get(permKey(r.id, fieldsModal.moduleId!)));
+                const deniedQ = rolePerms.some((p) => p?.deniedVisibleFields?.includes(f));
+                const deniedU = rolePerms.some((p) => p?.deniedEditableFields?.includes(f));
+                return (
+                  <tr key={f} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                    <td style={{ padding: 8 }}>{f}</td>
+                    {fieldsModal.userRolesList.map((r) => (
+                      <td key={r.id} style={{ padding: 8, textAlign: "center", whiteSpace: "nowrap" }}>
+                        <label style={{ marginRight: 8 }}>
+                          <input
+                            type="checkbox"
+                            checked={fieldsModal.drafts[r.id].visibleFields.includes(f)}
+                            onChange={() => toggleDraftField(r.id, "visibleFields", f)}
+                            aria-label={t("a11y.fieldRight", { role: r.name, field: f, right: t("a11y.query") })}
+                          /> {t("matrix.queryShort")}
+                        </label>
+                        <label>
+                          <input
+                            type="checkbox"
+                            checked={fieldsModal.drafts[r.id].editableFields.includes(f)}
+                            onChange={() => toggleDraftField(r.id, "editableFields", f)}
+                            aria-label={t("a11y.fieldRight", { role: r.name, field: f, right: t("a11y.update") })}
+                          /> {t("matrix.updateShort")}
+                        </label>
+                      </td>
+                    ))}
+                    <td style={{ padding: 8, textAlign: "center", color: colors.textMuted }}>
+                      {[
+                        unionQ && (deniedQ ? t("matrix.deniedSuffix", { right: t("matrix.queryShort") }) : t("matrix.queryShort")),
+                        unionU && (deniedU ? t("matrix.deniedSuffix", { right: t("matrix.updateShort") }) : t("matrix.updateShort")),
+                      ]
+                        .filter(Boolean)
+                        .join(" + ") || "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
 
-            <div style={{ textAlign: "right", marginTop: 14 }}>
-              <button onClick={() => setFieldsModal({ ...fieldsModal, open: false })} style={{ marginRight: 8, padding: "8px 12px", borderRadius: 6 }}>Cancel</button>
-              <button onClick={saveFieldsModal} style={{ padding: "8px 12px", borderRadius: 6, background: "#111827", color: "white", border: "none" }}>Save</button>
-            </div>
+          <div style={{ marginTop: 10, fontSize: 12, color: colors.textSecondary }} aria-live="polite">
+            {changedFieldRoles.length
+              ? t("matrix.savedTo", { roles: changedFieldRoles.map((r) => r.name).join(", ") })
+              : t("matrix.noChanges")}
           </div>
-        </div>
+        </Dialog>
       )}
+
+      {/* CONFLICT DIALOG (another admin saved the same permission first) */}
+      {conflict && (
+        <Dialog
+          title={t("sync.conflictTitle")}
+          onClose={() => setConflict(null)}
+          width={560}
+          footer={
+            <>
+              <button onClick={() => setConflict(null)} style={dialogButton}>{t("sync.keepTheirs")}</button>
+              <button
+                onClick={() => {
+                  setConflict(null);
+                  savePermission(conflict.roleId, conflict.moduleId, conflict.patch);
+                }}
+                style={dialogPrimaryButton}
+              >
+                {t("sync.applyMine")}
+              </button>
+            </>
+          }
+        >
+          <p style={{ marginTop: 0, fontSize: 14 }}>{t(conflict.theirs ? "sync.conflictBody" : "sync.deletedBody", { label: conflict.label })}</p>
+          {conflict.theirs && (
+            <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+              <thead>
+                <tr style={{ background: colors.headerBg }}>
+                  <th style={{ padding: 8, textAlign: "left" }}>{t("sync.list")}</th>
+                  <th style={{ padding: 8, textAlign: "left" }}>{t("sync.theirs")}</th>
+                  <th style={{ padding: 8, textAlign: "left" }}>{t("sync.yours")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {permissionLists
+                  .filter(([key]) => key in conflict.patch)
+                  .map(([key, label]) => {
+                    // action values are shown with their translated labels
+                    const show = (list: string[] | undefined) =>
+                      (list ?? []).map((x) => (key === "actions" || key === "deniedActions" ? actionLabel(x) : x)).join(", ") || t("common.none");
+                    return (
+                      <tr key={key} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                        <td style={{ padding: 8 }}>{t(label)}</td>
+                        <td style={{ padding: 8 }}>{show(conflict.theirs![key])}</td>
+                        <td style={{ padding: 8 }}>{show(conflict.patch[key])}</td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          )}
+        </Dialog>
+      )}
+
+      <ToastList toasts={toasts} dismiss={dismissToast} />
     </div>
   );
 }
@@ -0,0 +1,341 @@
+import React, { useEffect, useId, useMemo, useState } from "react";
+import CellStatusBadge from "../components/cellStatus";
+import Dialog, { dialogButton, dialogPrimaryButton } from "../components/dialog";
+import { useGridNavigation } from "../components/gridNavigation";
+import { Link } from "../components/route";
+import { colors } from "../components/theme";
+import { ACTIONS, type Action, type Module, type Permission, type Role } from "../api/types";
+import { changedLists } from "../lib/draft";
+import { moduleFields } from "../lib/fields";
+import { actionLabel, t } from "../lib/i18n";
+import { accessForRoles, buildAccessIndex, conflictOf, describeConflict, permKey, type Grant } from "../lib/permissions";
+
+type Props = {
+  roles: Role[];
+  modules: Module[];
+  permissions: Permission[];
+  // role/module keys with pending draft changes (highlighted)
+  changedKeys: Set<string>;
+  // role/module key -> optimistic write status
+  cellStatus: Record<string, "pending" | "error">;
+  // writes the permission (live or into the draft, decided by the parent); failures are reported by the parent
+  onSavePermission: (roleId: number, moduleId: number, patch: Partial<Permission>) => Promise<void>;
+  onBulkSetAction: (roleIds: number[], moduleIds: number[], action: Action, grant: boolean) => void;
+  onCopyRole: (fromRoleId: number, toRoleId: number) => void;
+  // a bulk job is running
+  busy: boolean;
+  // viewer may not change permissions
+  readOnly?: boolean;
+  // role/module whose fields editor is open; the parent keeps it in the URL (null = closed)
+  fieldsEditor: { roleId: number; moduleId: number } | null;
+  onOpenFieldsEditor: (roleId: number, moduleId: number) => void;
+  onCloseFieldsEditor: () => void;
+};
+
+const bulkBar: React.CSSProperties = { display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", background: colors.selectedBg, padding: 10, borderRadius: 8, marginBottom: 10, fontSize: 13 };
+
+// names of the ancestor roles behind a set of grants, for the "↑" markers
+const inheritedFrom = (grants: Grant[] | undefined) =>
+  Array.from(new Set((grants ?? []).filter((g) => g.inherited).map((g) => g.role.name))).join(", ");
+
+const closedFieldsModal = {
+  role: null as Role | null,
+  module: null as Module | null,
+  visibleFields: [] as string[],
+  editableFields: [] as string[],
+  deniedVisibleFields: [] as string[],
+  deniedEditableFields: [] as string[],
+  // the lists as they were when the editor opened
+  opened: {} as Partial<Permission>,
+};
+
+const toggleId = (set: Set<number>, id: number) => {
+  const next = new Set(set);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+};
+
+// Roles x modules matrix editing Permission records directly (no user needed)
+export default function RolePermissionMatrix({
+  roles,
+  modules,
+  permissions,
+  changedKeys,
+  cellStatus,
+  onSavePermission,
+  onBulkSetAction,
+  onCopyRole,
+  busy,
+  readOnly,
+  fieldsEditor,
+  onOpenFieldsEditor,
+  onCloseFieldsEditor,
+}: Props) {
+  // user assignments are irrelevant here; the index is only used for role inheritance
+  const index = useMemo(() => buildAccessIndex({ roles, permissions, userRoles: [] }), [roles, permissions]);
+  const permMap = index.permMap;
+  // per module: the allow checkboxes, then the deny ones
+  const grid = useGridNavigation(roles.length, modules.length * ACTIONS.length * 2);
+  const gridCol = (moduleIndex: number, actionIndex: number, deny = false) => (moduleIndex * 2 + (deny ? 1 : 0)) * ACTIONS.length + actionIndex;
+  const gridHelpId = useId();
+
+  // row (role) / column (module) selection for bulk operations
+  const [selectedRoles, setSelectedRoles] = useState<Set<number>>(new Set());
+  const [selectedModules, setSelectedModules] = useState<Set<number>>(new Set());
+  const [bulkAction, setBulkAction] = useState<Action>("read");
+  const [copy, setCopy] = useState<{ from: number | null; to: number | null }>({ from: null, to: null });
+  const roleIds = Array.from(selectedRoles);
+  const moduleIds = Array.from(selectedModules);
+
+  const setAction = (grant: boolean) => {
+    const params = { action: actionLabel(bulkAction), modules: moduleIds.length, roles: roleIds.length };
+    if (!confirm(t(grant ? "rolePerms.confirmGrant" : "rolePerms.confirmRevoke", params))) return;
+    onBulkSetAction(roleIds, moduleIds, bulkAction, grant);
+  };
+
+  const copyRole = () => {
+    if (copy.from === null || copy.to === null || copy.from === copy.to) return;
+    const name = (id: number) => roles.find((r) => r.id === id)?.name ?? "";
+    if (!confirm(t("rolePerms.confirmCopy", { from: name(copy.from), to: name(copy.to) }))) return;
+    onCopyRole(copy.from, copy.to);
+  };
+
+  const [fieldsModal, setFieldsModal] = useState(closedFieldsModal);
+
+  // kind "actions" grants, "deniedActions" adds a deny rule
+  const toggleAction = (roleId: number, moduleId: number, action: Action, kind: "actions" | "deniedActions" = "actions") => {
+    const perm = permMap.get(permKey(roleId, moduleId));
+    const current = perm?.[kind] ?? [];
+    const next = current.includes(action) ? current.filter((a) => a !== action) : [...current, action];
+    return onSavePermission(roleId, moduleId, { [kind]: next });
+  };
+
+  // start from the stored lists whenever the URL opens the editor (clicks, deep links, back / forward)
+  const fieldsEditorKey = fieldsEditor ? permKey(fieldsEditor.roleId, fieldsEditor.moduleId) : "";
+  useEffect(() => {
+    const role = roles.find((r) => r.id === fieldsEditor?.roleId);
+    const module = modules.find((m) => m.id === fieldsEditor?.moduleId);
+    if (!role || !module) {
+      setFieldsModal(closedFieldsModal);
+      return;
+    }
+    const perm = permMap.get(permKey(role.id, module.id));
+    const lists = {
+      visibleFields: perm?.visibleFields ?? [],
+      editableFields: perm?.editableFields ?? [],
+      deniedVisibleFields: perm?.deniedVisibleFields ?? [],
+      deniedEditableFields: perm?.deniedEditableFields ?? [],
+    };
+    setFieldsModal({ role, module, ...lists, opened: lists });
+  }, [fieldsEditorKey]);
+
+  const closeFieldsModal = onCloseFieldsEditor;
+
+  const saveFieldsModal = async () => {
+    const { role, module, opened, ...edited } = fieldsModal;
+    closeFieldsModal();
+    const patch = changedLists(opened, edited);
+    if (role && module && Object.keys(patch).length) await onSavePermission(role.id, module.id, patch);
+  };
+
+  type FieldListKey = "visibleFields" | "editableFields" | "deniedVisibleFields" | "deniedEditableFields";
+  const fieldSections: { key: FieldListKey; label: string }[] = [
+    { key: "visibleFields", label: t("rights.allowedQueryFields") },
+    { key: "editableFields", label: t("rights.allowedUpdateFields") },
+    { key: "deniedVisibleFields", label: t("rights.deniedQueryFields") },
+    { key: "deniedEditableFields", label: t("rights.deniedUpdateFields") },
+  ];
+
+  const toggleIn = (list: string[], f: string) => (list.includes(f) ? list.filter((x) => x !== f) : [...list, f]);
+
+  return (
+    <div style={{ background: colors.surface, padding: 12, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" }}>
+      {!readOnly && (
+        <div style={bulkBar}>
+          <strong>{t("rolePerms.selected", { roles: roleIds.length, modules: moduleIds.length })}</strong>
+          <select value={bulkAction} onChange={(e) => setBulkAction(e.target.value as Action)}>
+            {ACTIONS.map((a) => <option key={a} value={a}>{actionLabel(a)}</option>)}
+          </select>
+          <button disabled={busy || !roleIds.length || !moduleIds.length} onClick={() => setAction(true)}>{t("rolePerms.grant")}</button>
+          <button disabled={busy || !roleIds.length || !moduleIds.length} onClick={() => setAction(false)}>{t("rolePerms.revoke")}</button>
+
+          <span style={{ marginLeft: 12 }}>{t("rolePerms.copyFrom")}</span>
+          <select value={copy.from ?? ""} onChange={(e) => setCopy({ ...copy, from: e.target.value ? Number(e.target.value) : null })}>
+            <option value="">{t("rolePerms.pickRole")}</option>
+            {roles.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          <span>{t("rolePerms.to")}</span>
+          <select value={copy.to ?? ""} onChange={(e) => setCopy({ ...copy, to: e.target.value ? Number(e.target.value) : null })}>
+            <option value="">{t("rolePerms.pickRole")}</option>
+            {roles.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          <button disabled={busy || copy.from === null || copy.to === null || copy.from === copy.to} onClick={copyRole}>{t("rolePerms.copy")}</button>
+        </div>
+      )}
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }} {...(readOnly ? {} : grid.gridProps)} aria-describedby={readOnly ? undefined : gridHelpId}>
+        <thead>
+          <tr style={{ background: colors.headerBg }}>
+            <th style={{ textAlign: "left", padding: 12 }}>
+              <input
+                type="checkbox"
+                checked={roles.length > 0 && selectedRoles.size === roles.length}
+                onChange={() => setSelectedRoles(selectedRoles.size === roles.length ? new Set() : new Set(roles.map((r) => r.id)))}
+                title={t("rolePerms.selectAll")}
+              />{" "}
+              {t("rights.role")}
+            </th>
+            {modules.map((m) => (
+              <th key={m.id} style={{ padding: 12, textAlign: "center" }}>
+                <label style={{ cursor: "pointer" }}>
+                  <input type="checkbox" checked={selectedModules.has(m.id)} onChange={() => setSelectedModules((s) => toggleId(s, m.id))} title={t("rolePerms.selectModule")} />{" "}
+                  {m.name}
+                </label>
+              </th>
+            ))}
+          </tr>
+        </thead>
+
+        <tbody>
+          {roles.map((r, row) => (
+            <tr key={r.id} style={{ borderTop: `1px solid ${colors.divider}` }}>
+              <td style={{ padding: 12, width: 180, background: selectedRoles.has(r.id) ? colors.selectedBg : colors.rowHeaderBg, fontWeight: 600 }}>
+                <label style={{ cursor: "pointer" }}>
+                  <input type="checkbox" checked={selectedRoles.has(r.id)} onChange={() => setSelectedRoles((s) => toggleId(s, r.id))} aria-label={t("rolePerms.selectRole", { role: r.name })} />
+                </label>{" "}
+                <Link to={{ page: "role", roleId: r.id }}>{r.name}</Link>
+                {!!r.parentIds?.length && (
+                  <div style={{ fontSize: 12, color: colors.textMuted, fontWeight: 400 }}>
+                    {t("rolePerms.inherits", { roles: r.parentIds.map((id) => index.roleById.get(id)?.name).filter(Boolean).join(", ") })}
+                  </div>
+                )}
+              </td>
+
+              {modules.map((m, moduleIndex) => {
+                const perm = permMap.get(permKey(r.id, m.id));
+                const visible = perm?.visibleFields ?? [];
+                const editable = perm?.editableFields ?? [];
+                // what the role gets from its ancestors on top of its own permission
+                const access = accessForRoles([r.id], m.id, index);
+                const inheritedVisible = Object.keys(access.visible).filter((f) => !visible.includes(f));
+                const inheritedEditable = Object.keys(access.editable).filter((f) => !editable.includes(f));
+                // own and inherited field denies
+                const denied = { visible: Object.keys(access.denied.visible), editable: Object.keys(access.denied.editable) };
+                const status = cellStatus[permKey(r.id, m.id)];
+                return (
+                  <td key={m.id} style={{ padding: 12, verticalAlign: "top", background: changedKeys.has(permKey(r.id, m.id)) ? colors.changedBg : status === "error" ? colors.errorBg : undefined }}>
+                    <CellStatusBadge status={status} />
+                    <div style={{ display: "flex", gap: 10, justifyContent: "center", flexWrap: "wrap", marginBottom: 8 }}>
+                      {ACTIONS.map((a, actionIndex) => (
+                        <label key={a} style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer", fontSize: 13 }}>
+                          <input
+                            type="checkbox"
+                            checked={!!perm?.actions?.includes(a)}
+                            disabled={readOnly || status === "pending"}
+                            onChange={() => toggleAction(r.id, m.id, a)}
+                            aria-label={t("a11y.cell", { row: r.name, module: m.name, action: actionLabel(a) })}
+                            {...(readOnly ? {} : grid.cellProps(row, gridCol(moduleIndex, actionIndex)))}
+                          />
+                          {conflictOf(access, "actions", a) ? (
+                            <span style={{ textTransform: "capitalize", color: colors.danger, textDecoration: "line-through" }} title={describeConflict(conflictOf(access, "actions", a)!)}>{actionLabel(a)}</span>
+                          ) : (
+                            <span style={{ textTransform: "capitalize" }}>{actionLabel(a)}</span>
+                          )}
+                          {!perm?.actions?.includes(a) && inheritedFrom(access.actions[a]) && (
+                            <span title={t("rights.inheritedFrom", { roles: inheritedFrom(access.actions[a]) })} style={{ color: colors.accent }}>↑</span>
+                          )}
+                        </label>
+                      ))}
+                    </div>
+
+                    {/* deny rules: override grants from any other role */}
+                    <div style={{ display: "flex", gap: 8, justifyContent: "center", flexWrap: "wrap", marginBottom: 8, fontSize: 11, color: colors.danger }}>
+                      <span>{t("rolePerms.deny")}</span>
+                      {ACTIONS.map((a, actionIndex) => (
+                        <label key={a} style={{ display: "flex", alignItems: "center", gap: 3, cursor: "pointer" }} title={t("rolePerms.denyTitle", { action: actionLabel(a) })}>
+                          <input
+                            type="checkbox"
+                            checked={!!perm?.deniedActions?.includes(a)}
+                            disabled={readOnly || status === "pending"}
+                            onChange={() => toggleAction(r.id, m.id, a, "deniedActions")}
+                            aria-label={t("a11y.denyCell", { row: r.name, module: m.name, action: actionLabel(a) })}
+                            {...(readOnly ? {} : grid.cellProps(row, gridCol(moduleIndex, actionIndex, true)))}
+                          />
+                          {actionLabel(a)}
+                          {!perm?.deniedActions?.includes(a) && inheritedFrom(access.denied.actions[a]) && (
+                            <span title={t("rolePerms.deniedByInherited", { roles: inheritedFrom(access.denied.actions[a]) })}>↑</span>
+                          )}
+                        </label>
+                      ))}
+                    </div>
+
+                    <div style={{ fontSize: 12, color: colors.textSecondary, textAlign: "left" }}>
+                      <div><strong>{t("rights.allowedQueryFields")}:</strong> {visible.length ? visible.join(", ") : t("common.none")}</div>
+                      <div style={{ marginTop: 6 }}><strong>{t("rights.allowedUpdateFields")}:</strong> {editable.length ? editable.join(", ") : t("common.none")}</div>
+                      {(inheritedVisible.length > 0 || inheritedEditable.length > 0) && (
+                        <div style={{ marginTop: 6, color: colors.accent }}>
+                          {t("rolePerms.inherited")} {inheritedVisible.length ? t("change.query", { field: inheritedVisible.join(", ") }) : ""}
+                          {inheritedVisible.length && inheritedEditable.length ? "; " : ""}
+                          {inheritedEditable.length ? t("change.update", { field: inheritedEditable.join(", ") }) : ""}
+                        </div>
+                      )}
+                      {(denied.visible.length > 0 || denied.editable.length > 0) && (
+                        <div style={{ marginTop: 6, color: colors.danger }}>
+                          <strong>{t("rolePerms.deniedLabel")}</strong>{" "}
+                          {[...denied.visible.map((field) => t("change.query", { field })), ...denied.editable.map((field) => t("change.update", { field }))].join(", ")}
+                        </div>
+                      )}
+                    </div>
+
+                    {!readOnly && (
+                      <div style={{ textAlign: "center", marginTop: 8 }}>
+                        <button
+                          onClick={() => onOpenFieldsEditor(r.id, m.id)}
+                          disabled={status === "pending"}
+                          style={{ padding: "6px 10px", borderRadius: 6, border: "none", background: colors.accent, color: colors.onDark, cursor: "pointer" }}
+                        >
+                          {t("rights.editFields")}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {!readOnly && <div id={gridHelpId} style={{ fontSize: 12, color: colors.textMuted, padding: "8px 12px" }}>{t("a11y.gridHelp")}</div>}
+
+      {/* FIELDS EDITOR MODAL */}
+      {fieldsEditor && fieldsModal.module && (
+        <Dialog
+          title={t("rights.editFieldsTitle", { role: fieldsModal.role?.name ?? "", module: fieldsModal.module.name })}
+          onClose={closeFieldsModal}
+          width={520}
+          footer={
+            <>
+              <button onClick={closeFieldsModal} style={dialogButton}>{t("common.cancel")}</button>
+              <button onClick={saveFieldsModal} style={dialogPrimaryButton}>{t("common.save")}</button>
+            </>
+          }
+        >
+          {fieldSections.map(({ key, label }) => (
+            <fieldset key={key} style={{ marginTop: 12, border: "none", padding: 0 }}>
+              <legend style={{ fontWeight: 700, color: key.startsWith("denied") ? colors.danger : undefined }}>{label}</legend>
+              <div style={{ marginTop: 8 }}>
+                {moduleFields(fieldsModal.module!).map((f) => (
+                  <label key={f} style={{ display: "inline-block", marginRight: 12, marginBottom: 6 }}>
+                    <input type="checkbox" checked={fieldsModal[key].includes(f)} onChange={() => setFieldsModal((m) => ({ ...m, [key]: toggleIn(m[key], f) }))} />{" "}
+                    {f}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          ))}
+        </Dialog>
+      )}
+    </div>
+  );
+}
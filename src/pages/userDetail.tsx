@@ -0,0 +1,78 @@
+import React from "react";
+import { ACTIONS, type Module, type Role, type User } from "../api/types";
+import { Link } from "../components/route";
+import { colors } from "../components/theme";
+import { actionLabel, t } from "../lib/i18n";
+import { defaultMatrixFilters } from "../lib/matrixFilters";
+import { allowedFields, effectiveAccess, isAllowed, type AccessIndex, type AuthModel } from "../lib/permissions";
+
+type Props = {
+  userId: number;
+  users: User[];
+  roles: Role[];
+  modules: Module[];
+  model: AuthModel;
+  index: AccessIndex;
+  // viewer may not change permissions
+  readOnly?: boolean;
+};
+
+const panelStyle: React.CSSProperties = { background: colors.surface, padding: 16, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)" };
+const cell: React.CSSProperties = { padding: 8, textAlign: "left", verticalAlign: "top" };
+
+// #/users/:id — the user's roles and what they end up allowed to do per module
+export default function UserDetail({ userId, users, roles, modules, model, index, readOnly }: Props) {
+  const user = users.find((u) => u.id === userId);
+  if (!user) return <div style={panelStyle}>{t("userDetail.notFound", { id: userId })} <Link to={{ page: "tab", tab: "permissions", filters: defaultMatrixFilters, editor: null }}>{t("userDetail.back")}</Link></div>;
+
+  const held = (index.rolesByUser.get(userId) ?? []).map((rid) => roles.find((r) => r.id === rid)).filter((r): r is Role => !!r);
+
+  return (
+    <div style={panelStyle}>
+      <h3 style={{ marginTop: 0 }}>{user.name}</h3>
+      <div style={{ fontSize: 14, marginBottom: 12 }}>
+        {t("userDetail.roles")}{" "}
+        {held.length
+          ? held.map((r, i) => (
+              <React.Fragment key={r.id}>
+                {i > 0 && ", "}
+                <Link to={{ page: "role", roleId: r.id }}>{r.name}</Link>
+              </React.Fragment>
+            ))
+          : t("common.none")}
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+        <thead>
+          <tr style={{ background: colors.headerBg }}>
+            <th style={cell}>{t("rights.module")}</th>
+            <th style={cell}>{t("rights.actions")}</th>
+            <th style={cell}>{t("rights.queryFields")}</th>
+            <th style={cell}>{t("rights.updateFields")}</th>
+            {!readOnly && <th style={cell} />}
+          </tr>
+        </thead>
+        <tbody>
+          {modules.map((m) => {
+            const access = effectiveAccess(model, userId, m.id, index);
+            return (
+              <tr key={m.id} style={{ borderTop: `1px solid ${colors.divider}` }}>
+                <td style={{ ...cell, fontWeight: 600 }}>{m.name}</td>
+                <td style={cell}>{ACTIONS.filter((a) => isAllowed(access, "actions", a)).map(actionLabel).join(", ") || t("common.none")}</td>
+                <td style={cell}>{allowedFields(access, "visible").join(", ") || t("common.none")}</td>
+                <td style={cell}>{allowedFields(access, "editable").join(", ") || t("common.none")}</td>
+                {!readOnly && (
+                  <td style={{ ...cell, textAlign: "right" }}>
+                    {held.length > 0 && (
+                      <Link to={{ page: "tab", tab: "permissions", filters: defaultMatrixFilters, editor: { kind: "fields", userId, moduleId: m.id } }}>{t("rights.editFields")}</Link>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useId } from "react";
+import CellStatusBadge from "../components/cellStatus";
+import { useGridNavigation } from "../components/gridNavigation";
+import { Link } from "../components/route";
+import { colors } from "../components/theme";
+import { actionLabel, t } from "../lib/i18n";
+import { ACTIONS, type Action, type Module, type User } from "../api/types";
+import {
+  conflictOf,
+  describeConflict,
+  effectiveAccess,
+  isAllowed,
+  onlyInherited,
+  type AccessIndex,
+  type AuthModel,
+  type Grant,
+  type ModuleAccess,
+} from "../lib/permissions";
+
+type Props = {
+  // already filtered / paginated rows and columns
+  users: User[];
+  modules: Module[];
+  actions: readonly Action[];
+  model: AuthModel;
+  index: AccessIndex;
+  isChanged: (userId: number, moduleId: number) => boolean;
+  statusOf: (userId: number, moduleId: number) => "pending" | "error" | undefined;
+  onActionClick: (userId: number, moduleId: number, action: Action) => void;
+  onEditFields: (userId: number, moduleObj: Module) => void;
+  // viewer may not change permissions
+  readOnly?: boolean;
+};
+
+const stickyTop: React.CSSProperties = { position: "sticky", top: 0, zIndex: 2, background: colors.headerBg };
+const stickyLeft: React.CSSProperties = { position: "sticky", left: 0, zIndex: 1 };
+
+// The action cells open the role-selection dialog rather than toggling, so they are dialog buttons drawn as checkboxes
+const cellButton = (allowed: boolean, readOnly?: boolean): React.CSSProperties => ({
+  width: 18,
+  height: 18,
+  padding: 0,
+  borderRadius: 4,
+  border: `1px solid ${allowed ? colors.primary : colors.controlBorder}`,
+  background: allowed ? colors.primary : colors.surface,
+  color: colors.onDark,
+  fontSize: 12,
+  lineHeight: "16px",
+  cursor: readOnly ? "default" : "pointer",
+  opacity: readOnly ? 0.6 : 1,
+});
+
+// "Employee via Manager, Auditor"
+const inheritedTitle = (grants: Grant[]) =>
+  t("rights.inheritedFrom", { roles: grants.map((g) => t("rights.inheritedVia", { role: g.role.name, via: g.via.name })).join(", ") });
+
+const conflictStyle: React.CSSProperties = { color: colors.danger, textDecoration: "line-through" };
+
+// Field list where rights that only come from a parent role are marked with ↑
+// and fields granted by one role but denied by another are struck through
+function FieldList({ access, kind }: { access: ModuleAccess; kind: "visible" | "editable" }) {
+  const names = Object.keys(access[kind]);
+  if (!names.length) return <>{t("common.none")}</>;
+  return (
+    <>
+      {names.map((f, i) => {
+        const conflict = conflictOf(access, kind, f);
+        return (
+          <React.Fragment key={f}>
+            {i > 0 && ", "}
+            {conflict ? (
+              <span style={conflictStyle} title={describeConflict(conflict)}>{f}</span>
+            ) : onlyInherited(access[kind][f]) ? (
+              <em title={inheritedTitle(access[kind][f])}>{f}↑</em>
+            ) : (
+              f
+            )}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+// One line per conflicting right in the cell, for the cell-level warning
+function conflictLines(access: ModuleAccess) {
+  const lines: string[] = [];
+  ACTIONS.forEach((a) => {
+    const c = conflictOf(access, "actions", a);
+    if (c) lines.push(`${actionLabel(a)}: ${describeConflict(c)}`);
+  });
+  (["visible", "editable"] as const).forEach((kind) =>
+    Object.keys(access[kind]).forEach((f) => {
+      const c = conflictOf(access, kind, f);
+      if (c) lines.push(`${t(kind === "visible" ? "change.query" : "change.update", { field: f })}: ${describeConflict(c)}`);
+    })
+  );
+  return lines;
+}
+
+function ActionLabel({ access, action }: { access: ModuleAccess; action: Action }) {
+  const conflict = conflictOf(access, "actions", action);
+  if (conflict) return <span style={{ ...conflictStyle, textTransform: "capitalize" }} title={describeConflict(conflict)}>{actionLabel(action)}</span>;
+  if (onlyInherited(access.actions[action])) {
+    return <em style={{ textTransform: "capitalize" }} title={inheritedTitle(access.actions[action])}>{actionLabel(action)}↑</em>;
+  }
+  return <span style={{ textTransform: "capitalize" }}>{actionLabel(action)}</span>;
+}
+
+// Users x modules matrix; a checkbox is checked if ANY role assigned to the user grants the action
+export default function UserPermissionMatrix({ users, modules, actions, model, index, isChanged, statusOf, onActionClick, onEditFields, readOnly }: Props) {
+  const roleNames = (userId: number) =>
+    (index.rolesByUser.get(userId) ?? []).map((rid) => index.roleById.get(rid)?.name).filter(Boolean).join(", ");
+  // one grid column per module x action checkbox
+  const grid = useGridNavigation(users.length, modules.length * actions.length);
+  const gridHelpId = useId();
+
+  return (
+    <div style={{ background: colors.surface, borderRadius: 10, boxShadow: "0 6px 18px rgba(0,0,0,0.06)", overflow: "auto", maxHeight: "70vh" }}>
+      <table style={{ width: "100%", borderCollapse: "separate", borderSpacing: 0 }} {...grid.gridProps} aria-describedby={readOnly ? undefined : gridHelpId}>
+        <thead>
+          <tr>
+            <th style={{ ...stickyTop, ...stickyLeft, zIndex: 3, textAlign: "left", padding: 12 }}>{t("rights.user")}</th>
+            {modules.map((m) => <th key={m.id} style={{ ...stickyTop, padding: 12, textAlign: "center" }}>{m.name}</th>)}
+          </tr>
+        </thead>
+
+        <tbody>
+          {users.map((u, row) => (
+            <tr key={u.id}>
+              <td style={{ ...stickyLeft, padding: 12, width: 220, background: colors.rowHeaderBg, fontWeight: 600, borderTop: `1px solid ${colors.divider}` }}>
+                <div><Link to={{ page: "user", userId: u.id }}>{u.name}</Link></div>
+                <div style={{ fontSize: 12, color: colors.textMuted }}>{t("rights.roles", { roles: roleNames(u.id) || t("common.none") })}</div>
+              </td>
+
+              {modules.map((m, moduleIndex) => {
+                // one pass per cell for the actions and the fields union
+                const access = effectiveAccess(model, u.id, m.id, index);
+                const status = statusOf(u.id, m.id);
+                const conflicts = conflictLines(access);
+                return (
+                  <td
+                    key={m.id}
+                    style={{
+                      padding: 12,
+                      verticalAlign: "top",
+                      borderTop: `1px solid ${colors.divider}`,
+                      background: isChanged(u.id, m.id) ? colors.changedBg : status === "error" ? colors.errorBg : undefined,
+                    }}
+                  >
+                    <CellStatusBadge status={status} />
+                    {conflicts.length > 0 && (
+                      <div style={{ fontSize: 11, color: colors.danger, textAlign: "center", marginBottom: 4 }} title={conflicts.join("\n")}>
+                        {t("rights.deniedByRule", { count: conflicts.length })}
+                      </div>
+                    )}
+                    {/* actions: checked = the union allows it; clicking opens the role-selection dialog */}
+                    <div style={{ display: "flex", gap: 10, justifyContent: "center", flexWrap: "wrap", marginBottom: 8 }}>
+                      {actions.map((a, actionIndex) => {
+                        const allowed = isAllowed(access, "actions", a);
+                        // read-only cells stay in the grid (aria-disabled, not disabled) so they can still be reached and read
+                        const cell = grid.cellProps(row, moduleIndex * actions.length + actionIndex);
+                        return (
+                          <label key={a} style={{ display: "flex", alignItems: "center", gap: 6, cursor: readOnly ? "default" : "pointer", fontSize: 13 }}>
+                            <button
+                              type="button"
+                              aria-haspopup="dialog"
+                              aria-disabled={readOnly || undefined}
+                              onClick={readOnly ? undefined : () => onActionClick(u.id, m.id, a)}
+                              aria-label={t("a11y.userCell", { row: u.name, module: m.name, action: actionLabel(a), state: t(allowed ? "a11y.allowed" : "a11y.notAllowed") })}
+                              title={readOnly ? undefined : t("rights.clickToChange")}
+                              {...cell}
+                              style={{ ...cellButton(allowed, readOnly), ...cell.style }}
+                            >
+                              {allowed ? "✓" : ""}
+                            </button>
+                            <ActionLabel access={access} action={a} />
+                          </label>
+                        );
+                      })}
+                    </div>
+
+                    <div style={{ fontSize: 12, color: colors.textSecondary, textAlign: "left" }}>
+                      <div><strong>{t("rights.allowedQueryFields")}:</strong> <FieldList access={access} kind="visible" /></div>
+                      <div style={{ marginTop: 6 }}><strong>{t("rights.allowedUpdateFields")}:</strong> <FieldList access={access} kind="editable" /></div>
+                    </div>
+
+                    {!readOnly && (
+                      <div style={{ textAlign: "center", marginTop: 8 }}>
+                        <button
+                          onClick={() => onEditFields(u.id, m)}
+                          style={{ padding: "6px 10px", borderRadius: 6, border: "none", background: colors.accent, color: colors.onDark, cursor: "pointer" }}
+                        >
+                          {t("rights.editFields")}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          {users.length === 0 && (
+            <tr>
+              <td colSpan={modules.length + 1} style={{ padding: 16, textAlign: "center", color: colors.textMuted }}>{t("rights.noUsersMatch")}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <div style={{ fontSize: 12, color: colors.textMuted, padding: "8px 12px" }}>
+        {t("common.inheritedLegend")}; <span style={conflictStyle}>{t("rights.struckThrough")}</span> {t("rights.conflictLegend")}
+        {!readOnly && <div id={gridHelpId}>{t("a11y.gridHelp")}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_USE_MOCK?: string;
+  readonly VITE_MOCK_DELAY?: string;
+  readonly VITE_MOCK_SESSION_MINUTES?: string;
+  readonly VITE_SYNC_SECONDS?: string;
+  readonly VITE_SENSITIVE_MODULES?: string;
+  readonly VITE_PANEL_PERMISSIONS_MODULE?: string;
+  readonly VITE_PANEL_ROLES_MODULE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
@@ -6,5 +7,10 @@ export default defineConfig({
   server: {
     host: true,
     port: 5173
+  },
+  // tests run against the in-process mock backend (src/api/mock)
+  test: {
+    environment: "jsdom",
+    env: { VITE_USE_MOCK: "true" }
   }
 });
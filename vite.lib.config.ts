@@ -0,0 +1,13 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+// Library build of src/access for other front ends (npm run build:lib -> dist-lib/).
+// React comes from the consuming app; VITE_* settings are read at build time, as for the panel.
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: "dist-lib",
+    lib: { entry: "src/access/index.ts", formats: ["es"], fileName: "access" },
+    rollupOptions: { external: ["react", "react/jsx-runtime", "react-dom"] },
+  },
+});